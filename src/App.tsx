@@ -4,6 +4,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import AdminEndpoints from "./pages/AdminEndpoints";
+import AdminAlertRules from "./pages/AdminAlertRules";
+import AdminEscalationPolicies from "./pages/AdminEscalationPolicies";
+import AdminContacts from "./pages/AdminContacts";
+import AdminWebhooks from "./pages/AdminWebhooks";
+import AdminNetworkGroups from "./pages/AdminNetworkGroups";
+import AdminMaintenance from "./pages/AdminMaintenance";
+import Incidents from "./pages/Incidents";
+import UptimeReport from "./pages/UptimeReport";
+import LatencyReport from "./pages/LatencyReport";
+import OutageHeatmap from "./pages/OutageHeatmap";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +27,17 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/admin/endpoints" element={<AdminEndpoints />} />
+          <Route path="/admin/alert-rules" element={<AdminAlertRules />} />
+          <Route path="/admin/escalation-policies" element={<AdminEscalationPolicies />} />
+          <Route path="/admin/contacts" element={<AdminContacts />} />
+          <Route path="/admin/webhooks" element={<AdminWebhooks />} />
+          <Route path="/admin/network-groups" element={<AdminNetworkGroups />} />
+          <Route path="/admin/maintenance" element={<AdminMaintenance />} />
+          <Route path="/incidents" element={<Incidents />} />
+          <Route path="/reports/uptime" element={<UptimeReport />} />
+          <Route path="/reports/latency" element={<LatencyReport />} />
+          <Route path="/reports/heatmap" element={<OutageHeatmap />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,49 @@
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DateRangePickerProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+  placeholder?: string;
+}
+
+export const DateRangePicker = ({ value, onChange, placeholder = "Any date" }: DateRangePickerProps) => {
+  const label = value?.from
+    ? value.to
+      ? `${format(value.from, "d MMM yyyy")} – ${format(value.to, "d MMM yyyy")}`
+      : format(value.from, "d MMM yyyy")
+    : placeholder;
+
+  return (
+    <div className="flex items-center gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 font-normal">
+            <CalendarIcon className="h-4 w-4" />
+            {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={value}
+            onSelect={onChange}
+            numberOfMonths={2}
+            defaultMonth={value?.from}
+            disabled={{ after: new Date() }}
+          />
+        </PopoverContent>
+      </Popover>
+      {value?.from && (
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onChange(undefined)}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Clear dates</span>
+        </Button>
+      )}
+    </div>
+  );
+};
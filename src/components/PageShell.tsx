@@ -0,0 +1,38 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PageShellProps {
+  title: string;
+  description?: string;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+// Shared chrome for the secondary pages, matching the dashboard background.
+export const PageShell = ({ title, description, actions, children }: PageShellProps) => {
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.03)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.03)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_50%,black,transparent)]" />
+
+      <div className="relative z-10 container mx-auto px-4 py-12">
+        <div className="max-w-6xl mx-auto mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <Button asChild variant="ghost" size="sm" className="mb-2 -ml-3 gap-1 text-muted-foreground">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold text-foreground">{title}</h1>
+            {description && <p className="text-muted-foreground mt-1">{description}</p>}
+          </div>
+          {actions && <div className="flex items-center gap-2">{actions}</div>}
+        </div>
+
+        <div className="max-w-6xl mx-auto">{children}</div>
+      </div>
+    </div>
+  );
+};
@@ -1,55 +1,158 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle2, XCircle, Loader2, Activity, VolumeX } from "lucide-react";
+import { Link } from "react-router-dom";
+import { CheckCircle2, XCircle, Loader2, Activity, VolumeX, Settings, RefreshCw, AlertTriangle, ArrowUpDown, History, BarChart3, LineChart, Grid3x3, Gauge, Globe, Store, Wrench } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-type PortStatus = "checking" | "open" | "closed" | "idle";
+import { useInventory, listRoles, type MonitoredEndpoint } from "@/hooks/use-inventory";
+import { useEndpointStates } from "@/hooks/use-endpoint-states";
+import { useAcknowledgeOutage, useOpenOutages } from "@/hooks/use-outages";
+import { useSession } from "@/hooks/use-session";
+import { useEndpointsInMaintenance } from "@/hooks/use-maintenance";
+import { REASON_LABELS, STATUS_LABELS, STATUS_TEXT_CLASS, type PortStatus } from "@/lib/port-status";
+import { formatTimestamp } from "@/lib/format";
+import {
+  BRAND_HEALTH_LABELS,
+  BRAND_HEALTH_ROW_CLASS,
+  BRAND_HEALTH_TEXT_CLASS,
+  brandHealth,
+  type BrandHealth,
+} from "@/lib/brand-health";
+
+interface EndpointStatus extends MonitoredEndpoint {
+  status: PortStatus;
+  reason?: string;
+  message?: string;
+  timeMs?: number;
+  closedAt?: string;
+  openedAt?: string;
+  errorSince?: string;
+  flappingSince?: string;
+  degradedSince?: string;
+}
 
 interface BrandStatus {
   brand: string;
-  brainNetIp: string;
-  liveIp: string;
-  brainNetStatus: PortStatus;
-  liveIpStatus: PortStatus;
-  brainNetClosedAt?: string;
-  brainNetOpenedAt?: string;
-  liveIpClosedAt?: string;
-  liveIpOpenedAt?: string;
+  health?: BrandHealth;
+  // Every endpoint of the brand is inside a maintenance window
+  inMaintenance: boolean;
+  endpoints: EndpointStatus[];
 }
 
-// EastGate brands configuration
-const BRANDS: Record<string, { host: string; default_port: number; brain_net_ip: string; live_ip: string }> = {
-  "Bareeze": { host: "barz.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.25", live_ip: "202.59.94.86" },
-  "Bareeze Men": { host: "bman.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.26", live_ip: "202.59.94.92" },
-  "Chineyere": { host: "chny.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.28", live_ip: "202.59.94.88" },
-  "Mini Minor": { host: "mmnr.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.29", live_ip: "202.59.94.87" },
-  "Rangja": { host: "rnja.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.30", live_ip: "202.59.94.91" },
-  "The Entertainer": { host: "te.eastgateindustries.com", default_port: 20000, brain_net_ip: "", live_ip: "202.59.94.93" },
-};
-
-interface ClosedTimestamps {
-  [key: string]: number; // key format: "brand-ipType", value: timestamp when port first closed
+interface SpotCheck {
+  status: PortStatus;
+  reason?: string;
+  message?: string;
+  timeMs?: number;
+  checkedAt: string;
 }
 
-interface EmailSent {
-  [key: string]: boolean; // Track if email was already sent for this closure
+interface SpotCheckResult {
+  id: string;
+  status?: PortStatus;
+  reason?: string;
+  message?: string;
+  time_ms?: number;
+  error?: string;
 }
 
+// Treat an endpoint as unknown when the monitor has missed a few of its checks
+const STALE_AFTER_INTERVALS = 3;
+const MIN_STALE_MS = 60000;
+
+// The dashboard only displays what the server-side monitor has recorded;
+// probing, alert timing and emails all happen in the `monitor` edge function.
 export const PortChecker = () => {
-  const [brandStatuses, setBrandStatuses] = useState<BrandStatus[]>(
-    Object.keys(BRANDS).map(brand => ({
-      brand,
-      brainNetIp: BRANDS[brand].brain_net_ip,
-      liveIp: BRANDS[brand].live_ip,
-      brainNetStatus: "idle" as PortStatus,
-      liveIpStatus: "idle" as PortStatus,
-    }))
-  );
-  const [alarmIntervals, setAlarmIntervals] = useState<{[key: string]: NodeJS.Timeout}>({});
+  const { data: brands, isLoading: isInventoryLoading, error: inventoryError } = useInventory();
+  const { data: states, isError: isStatesError } = useEndpointStates();
+  const { data: outages } = useOpenOutages();
+  const { session } = useSession();
+  const acknowledgeOutage = useAcknowledgeOutage();
+  const { data: inMaintenance } = useEndpointsInMaintenance();
+  const [now, setNow] = useState(Date.now());
+  const alarmIntervals = useRef<{[key: string]: NodeJS.Timeout}>({});
   const [isAlarmActive, setIsAlarmActive] = useState(false);
-  const closedTimestamps = useRef<ClosedTimestamps>({});
-  const emailSent = useRef<EmailSent>({});
+  const previousStatuses = useRef<{[key: string]: PortStatus}>({});
+  const previousMuted = useRef<Set<string>>(new Set());
+  const previousHealth = useRef<{[key: string]: BrandHealth | undefined}>({});
+  const previousOutages = useRef<Set<string> | null>(null);
+  const [spotChecks, setSpotChecks] = useState<{[key: string]: SpotCheck}>({});
+  const [isSpotChecking, setIsSpotChecking] = useState(false);
+
+  const brandStatuses = useMemo<BrandStatus[]>(
+    () =>
+      (brands ?? []).map(brand => {
+        const endpoints = brand.endpoints.map((endpoint): EndpointStatus => {
+          const state = states?.[endpoint.id];
+          const spotCheck = spotChecks[endpoint.id];
+          const timestamps = {
+            closedAt: formatTimestamp(state?.closed_since ?? null),
+            openedAt: state?.closed_since ? undefined : formatTimestamp(state?.opened_at ?? null),
+            errorSince: formatTimestamp(state?.error_since ?? null),
+            flappingSince: formatTimestamp(state?.flapping_since ?? null),
+            degradedSince: formatTimestamp(state?.degraded_since ?? null),
+          };
+
+          if (isSpotChecking) {
+            return { ...endpoint, ...timestamps, status: "checking" as PortStatus };
+          }
+
+          // A manual check is shown until the monitor reports something newer
+          if (spotCheck && (!state?.last_checked_at || spotCheck.checkedAt > state.last_checked_at)) {
+            return { ...endpoint, ...timestamps, ...spotCheck };
+          }
+
+          if (inMaintenance?.has(endpoint.id)) {
+            return {
+              ...endpoint,
+              ...timestamps,
+              status: "maintenance" as PortStatus,
+              reason: "maintenance",
+              message: state ? `Monitor reports ${STATUS_LABELS[state.status as PortStatus]}` : undefined,
+            };
+          }
+
+          if (isStatesError) {
+            return { ...endpoint, ...timestamps, status: "error" as PortStatus, reason: "offline" };
+          }
+
+          const staleAfterMs = Math.max(endpoint.interval_seconds * 1000 * STALE_AFTER_INTERVALS, MIN_STALE_MS);
+          if (state?.last_checked_at && now - new Date(state.last_checked_at).getTime() > staleAfterMs) {
+            return {
+              ...endpoint,
+              ...timestamps,
+              status: "error" as PortStatus,
+              reason: "stale",
+              message: `Last checked ${formatTimestamp(state.last_checked_at)}`,
+            };
+          }
+
+          return {
+            ...endpoint,
+            ...timestamps,
+            status: (state?.status ?? "idle") as PortStatus,
+            reason: state?.reason ?? undefined,
+            message: state?.message ?? undefined,
+            timeMs: state?.time_ms ?? undefined,
+          };
+        });
+        return {
+          brand: brand.name,
+          health: brandHealth(endpoints.map(e => e.status)),
+          inMaintenance: endpoints.length > 0 && endpoints.every(e => e.status === "maintenance"),
+          endpoints,
+        };
+      }),
+    [brands, states, inMaintenance, isStatesError, spotChecks, isSpotChecking, now]
+  );
+  const roles = listRoles(brandStatuses);
+
+  // Endpoints whose closure is already explained by an open ISP or site outage
+  const onOutage = useMemo(
+    () => new Set((outages ?? []).flatMap(outage => outage.incidents.map(incident => incident.endpoint_id))),
+    [outages]
+  );
 
   // Simple notification beep sound
   const playSimpleBeep = () => {
@@ -70,215 +173,187 @@ export const PortChecker = () => {
     oscillator.stop(audioContext.currentTime + 0.3);
   };
 
-  // Start continuous alarm for a specific brand/IP
+  // Start continuous alarm for a specific endpoint
   const startContinuousAlarm = (key: string) => {
-    if (alarmIntervals[key]) {
-      clearInterval(alarmIntervals[key]);
+    if (alarmIntervals.current[key]) {
+      clearInterval(alarmIntervals.current[key]);
     }
     
     playSimpleBeep();
     setIsAlarmActive(true);
     
-    const intervalId = setInterval(() => {
+    alarmIntervals.current[key] = setInterval(() => {
       playSimpleBeep();
     }, 3000);
-    
-    setAlarmIntervals(prev => ({ ...prev, [key]: intervalId }));
   };
 
-  // Stop continuous alarm for a specific brand/IP
+  // Stop continuous alarm for a specific endpoint
   const stopContinuousAlarm = (key: string) => {
-    if (alarmIntervals[key]) {
-      clearInterval(alarmIntervals[key]);
-      setAlarmIntervals(prev => {
-        const newIntervals = { ...prev };
-        delete newIntervals[key];
-        // Check if any alarms are still active
-        if (Object.keys(newIntervals).length === 0) {
-          setIsAlarmActive(false);
-        }
-        return newIntervals;
-      });
+    if (alarmIntervals.current[key]) {
+      clearInterval(alarmIntervals.current[key]);
+      delete alarmIntervals.current[key];
+      // Check if any alarms are still active
+      if (Object.keys(alarmIntervals.current).length === 0) {
+        setIsAlarmActive(false);
+      }
     }
   };
 
   // Stop all alarms manually
   const stopAllAlarms = () => {
-    Object.keys(alarmIntervals).forEach(key => {
-      clearInterval(alarmIntervals[key]);
-    });
-    setAlarmIntervals({});
+    Object.values(alarmIntervals.current).forEach(intervalId => clearInterval(intervalId));
+    alarmIntervals.current = {};
     setIsAlarmActive(false);
     toast.success("All alarms stopped manually");
   };
 
-  // Send email alert
-  const sendEmailAlert = async (brand: string, ip: string, ipType: string, closedSince: string) => {
-    try {
-      await supabase.functions.invoke('send-email-alert', {
-        body: { brand, ip, ipType, closedSince }
-      });
-      toast.info(`Email alert sent for ${brand} - ${ipType}`);
-    } catch (error) {
-      console.error("Email alert error:", error);
+  // Sound the alarm when the monitor reports a closure and stop it on recovery.
+  // Manual spot checks never drive the alarm; only confirmed server state does.
+  // An outage sounds one alarm however many endpoints it takes down, and their
+  // own closures stay quiet. Outages already open when the page loads sound
+  // without a toast. A brand still running on its backup link only gets a
+  // warning; the alarm sounds once its last link closes too. Endpoints inside
+  // a maintenance window stay silent until it ends.
+  useEffect(() => {
+    if (outages) {
+      const current = new Set(outages.map(outage => outage.id));
+      for (const outage of outages) {
+        if (previousOutages.current?.has(outage.id)) continue;
+        startContinuousAlarm(`outage:${outage.id}`);
+        if (previousOutages.current) {
+          toast.error(
+            outage.kind === "network" ? `ISP OUTAGE: ${outage.title}` : `SITE DOWN: ${outage.title}`,
+            { duration: 10000 }
+          );
+        }
+      }
+      for (const id of previousOutages.current ?? []) {
+        if (current.has(id)) continue;
+        stopContinuousAlarm(`outage:${id}`);
+        toast.success("Outage over");
+      }
+      previousOutages.current = current;
     }
-  };
 
-  // Real port checking function using backend
-  const checkPort = async (brand: string, ip: string) => {
+    if (!brands || !states) return;
+
+    for (const brand of brands) {
+      const health = brandHealth(
+        brand.endpoints.map(endpoint =>
+          inMaintenance?.has(endpoint.id) ? "maintenance" : ((states[endpoint.id]?.status ?? "idle") as PortStatus)
+        )
+      );
+      const wasFailover = previousHealth.current[brand.id] === "failover";
+      previousHealth.current[brand.id] = health;
+
+      for (const endpoint of brand.endpoints) {
+        const status = (states[endpoint.id]?.status ?? "idle") as PortStatus;
+        const previous = previousStatuses.current[endpoint.id];
+        const wasMuted = previousMuted.current.has(endpoint.id);
+        previousStatuses.current[endpoint.id] = status;
+
+        if (onOutage.has(endpoint.id) || inMaintenance?.has(endpoint.id)) {
+          previousMuted.current.add(endpoint.id);
+          stopContinuousAlarm(endpoint.id);
+          continue;
+        }
+        previousMuted.current.delete(endpoint.id);
+
+        if (status === "closed" && health === "failover") {
+          stopContinuousAlarm(endpoint.id);
+          if (previous && previous !== "closed") {
+            toast.warning(`${brand.name} - ${endpoint.role} closed, running on backup link`, { duration: 10000 });
+          }
+        } else if (status === "closed" && previous === "closed" && (wasMuted || wasFailover)) {
+          // The outage or maintenance ended, or the backup link failed too, and this endpoint is still closed
+          startContinuousAlarm(endpoint.id);
+        } else if (status === "flapping" && previous !== "flapping") {
+          // A flapping link would sound the alarm on and off, so silence it and warn once
+          stopContinuousAlarm(endpoint.id);
+          if (previous) {
+            toast.warning(`${brand.name} - ${endpoint.role} is flapping between open and closed`);
+          }
+        } else if (status === "closed" && previous !== "closed") {
+          startContinuousAlarm(endpoint.id);
+          if (previous) {
+            toast.error(`${brand.name} - ${endpoint.role} PORT CLOSED!`, { duration: 10000 });
+          }
+        } else if ((status === "open" || status === "degraded") && (previous === "closed" || previous === "flapping")) {
+          // IMMEDIATELY stop alarm when port opens
+          stopContinuousAlarm(endpoint.id);
+          toast.success(`${brand.name} - ${endpoint.role} recovered!`);
+        } else if (status === "degraded" && previous === "open") {
+          // Slow but up: a quiet heads-up, never the alarm
+          toast.warning(`${brand.name} - ${endpoint.role} is slow to connect (${states[endpoint.id]?.time_ms}ms)`);
+        } else if (status === "error" && previous && previous !== "error") {
+          // The probe could not tell; warn without sounding the alarm
+          const reason = states[endpoint.id]?.reason;
+          toast.warning(`${brand.name} - ${endpoint.role} status unknown: ${REASON_LABELS[reason] ?? reason}`);
+        }
+      }
+    }
+  }, [brands, states, outages, onOutage, inMaintenance]);
+
+  // Probe every endpoint right now in a single batch request to check-port
+  const checkNow = async () => {
+    if (!brands) return;
+
+    const targets = brands.flatMap(brand =>
+      brand.endpoints.map(endpoint => ({
+        id: endpoint.id,
+        brand: brand.name,
+        ip: endpoint.ip,
+        port: endpoint.port,
+        timeout: endpoint.timeout_seconds,
+      }))
+    );
+
+    setIsSpotChecking(true);
     try {
       const { data, error } = await supabase.functions.invoke('check-port', {
-        body: { brand, port: 20000, timeout: 3, ip }
+        body: { targets }
       });
 
       if (error) throw error;
-      
-      return data.open ? "open" : "closed";
+
+      const checkedAt = new Date().toISOString();
+      setSpotChecks(
+        Object.fromEntries(
+          data.results.map((r: SpotCheckResult) => [
+            r.id,
+            r.error
+              ? { status: "error", reason: "function_error", message: r.error, checkedAt }
+              : { status: r.status, reason: r.reason, message: r.message, timeMs: r.time_ms, checkedAt },
+          ])
+        )
+      );
     } catch (error) {
+      // The check function itself failed; that says nothing about the ports
       console.error("Port check error:", error);
-      return "closed";
-    }
-  };
-
-  // Check all brands and both IPs
-  const checkAllPorts = async () => {
-    const brandKeys = Object.keys(BRANDS);
-    
-    for (const brand of brandKeys) {
-      const brandConfig = BRANDS[brand];
-      
-      // Update status to checking
-      setBrandStatuses(prev => prev.map(b => 
-        b.brand === brand 
-          ? { ...b, brainNetStatus: "checking", liveIpStatus: "checking" }
-          : b
-      ));
-
-      // Check Brain Net IP (skip if empty)
-      const brainNetResult = brandConfig.brain_net_ip 
-        ? await checkPort(brand, brandConfig.brain_net_ip)
-        : "idle";
-      
-      // Check Live IP
-      const liveIpResult = await checkPort(brand, brandConfig.live_ip);
-
-      // Update statuses
-      setBrandStatuses(prev => prev.map(b => 
-        b.brand === brand 
-          ? { 
-              ...b, 
-              brainNetStatus: brainNetResult as PortStatus, 
-              liveIpStatus: liveIpResult as PortStatus 
-            }
-          : b
-      ));
-
-      // Handle Brain Net IP status changes
-      const brainNetKey = `${brand}-brainNet`;
-      if (brainNetResult === "closed") {
-        // Track when port first closed
-        if (!closedTimestamps.current[brainNetKey]) {
-          closedTimestamps.current[brainNetKey] = Date.now();
-          emailSent.current[brainNetKey] = false;
-          startContinuousAlarm(brainNetKey);
-          toast.error(`${brand} - Brain Net IP PORT CLOSED!`, { duration: 10000 });
-          
-          // Update closed timestamp in UI
-          const closedTime = new Date().toLocaleString();
-          setBrandStatuses(prev => prev.map(b => 
-            b.brand === brand 
-              ? { ...b, brainNetClosedAt: closedTime, brainNetOpenedAt: undefined }
-              : b
-          ));
-        }
-        
-        // Check if closed for more than 2 minutes and email not sent yet
-        const closedDuration = Date.now() - closedTimestamps.current[brainNetKey];
-        if (closedDuration >= 120000 && !emailSent.current[brainNetKey]) {
-          emailSent.current[brainNetKey] = true;
-          const closedSince = new Date(closedTimestamps.current[brainNetKey]).toLocaleString();
-          await sendEmailAlert(brand, brandConfig.brain_net_ip, "Brain Net IP", closedSince);
-        }
-      } else if (brainNetResult === "open") {
-        // IMMEDIATELY stop alarm when port opens
-        stopContinuousAlarm(brainNetKey);
-        
-        // Reset tracking when port opens
-        if (closedTimestamps.current[brainNetKey]) {
-          delete closedTimestamps.current[brainNetKey];
-          delete emailSent.current[brainNetKey];
-          toast.success(`${brand} - Brain Net IP recovered!`);
-          
-          // Update opened timestamp in UI
-          const openedTime = new Date().toLocaleString();
-          setBrandStatuses(prev => prev.map(b => 
-            b.brand === brand 
-              ? { ...b, brainNetOpenedAt: openedTime, brainNetClosedAt: undefined }
-              : b
-          ));
-        }
-      }
-      
-      // Handle Live IP status changes
-      const liveIpKey = `${brand}-liveIp`;
-      if (liveIpResult === "closed") {
-        // Track when port first closed
-        if (!closedTimestamps.current[liveIpKey]) {
-          closedTimestamps.current[liveIpKey] = Date.now();
-          emailSent.current[liveIpKey] = false;
-          startContinuousAlarm(liveIpKey);
-          toast.error(`${brand} - Live IP PORT CLOSED!`, { duration: 10000 });
-          
-          // Update closed timestamp in UI
-          const closedTime = new Date().toLocaleString();
-          setBrandStatuses(prev => prev.map(b => 
-            b.brand === brand 
-              ? { ...b, liveIpClosedAt: closedTime, liveIpOpenedAt: undefined }
-              : b
-          ));
-        }
-        
-        // Check if closed for more than 2 minutes and email not sent yet
-        const closedDuration = Date.now() - closedTimestamps.current[liveIpKey];
-        if (closedDuration >= 120000 && !emailSent.current[liveIpKey]) {
-          emailSent.current[liveIpKey] = true;
-          const closedSince = new Date(closedTimestamps.current[liveIpKey]).toLocaleString();
-          await sendEmailAlert(brand, brandConfig.live_ip, "Live IP", closedSince);
-        }
-      } else if (liveIpResult === "open") {
-        // IMMEDIATELY stop alarm when port opens
-        stopContinuousAlarm(liveIpKey);
-        
-        // Reset tracking when port opens
-        if (closedTimestamps.current[liveIpKey]) {
-          delete closedTimestamps.current[liveIpKey];
-          delete emailSent.current[liveIpKey];
-          toast.success(`${brand} - Live IP recovered!`);
-          
-          // Update opened timestamp in UI
-          const openedTime = new Date().toLocaleString();
-          setBrandStatuses(prev => prev.map(b => 
-            b.brand === brand 
-              ? { ...b, liveIpOpenedAt: openedTime, liveIpClosedAt: undefined }
-              : b
-          ));
-        }
-      }
+      const checkedAt = new Date().toISOString();
+      const message = error instanceof Error ? error.message : undefined;
+      setSpotChecks(
+        Object.fromEntries(
+          targets.map(t => [t.id, { status: "error", reason: "function_error", message, checkedAt }])
+        )
+      );
+      toast.error("Manual check failed");
+    } finally {
+      setIsSpotChecking(false);
     }
   };
 
-  // Auto-check on mount and every 30 seconds
+  // Re-evaluate staleness even when no new results arrive
   useEffect(() => {
-    checkAllPorts();
-    
-    const interval = setInterval(() => {
-      checkAllPorts();
-    }, 30000);
+    const intervalId = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(intervalId);
+  }, []);
 
+  // Clean up all alarm intervals on unmount
+  useEffect(() => {
+    const intervals = alarmIntervals.current;
     return () => {
-      clearInterval(interval);
-      // Clean up all alarm intervals on unmount
-      Object.values(alarmIntervals).forEach(intervalId => clearInterval(intervalId));
+      Object.values(intervals).forEach(intervalId => clearInterval(intervalId));
     };
   }, []);
 
@@ -286,8 +361,16 @@ export const PortChecker = () => {
     switch (s) {
       case "open":
         return <CheckCircle2 className="h-5 w-5 text-success" />;
+      case "degraded":
+        return <Gauge className="h-5 w-5 text-warning" />;
       case "closed":
         return <XCircle className="h-5 w-5 text-destructive" />;
+      case "error":
+        return <AlertTriangle className="h-5 w-5 text-orange-400" />;
+      case "flapping":
+        return <ArrowUpDown className="h-5 w-5 text-purple-400" />;
+      case "maintenance":
+        return <Wrench className="h-5 w-5 text-sky-400" />;
       case "checking":
         return <Loader2 className="h-5 w-5 text-primary animate-spin" />;
       default:
@@ -314,8 +397,50 @@ export const PortChecker = () => {
             </h1>
           </div>
           <p className="text-muted-foreground text-lg">
-            Real-time port monitoring for all brands • Auto-refresh every 30 seconds
+            Real-time port monitoring for all brands • Live results from the server-side monitor
           </p>
+          <div className="mt-2 flex flex-wrap items-center justify-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-2 text-muted-foreground"
+              onClick={checkNow}
+              disabled={!brands || isSpotChecking}
+            >
+              <RefreshCw className={`h-4 w-4 ${isSpotChecking ? "animate-spin" : ""}`} />
+              Check now
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/incidents">
+                <History className="h-4 w-4" />
+                Incidents
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/reports/uptime">
+                <BarChart3 className="h-4 w-4" />
+                Uptime
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/reports/latency">
+                <LineChart className="h-4 w-4" />
+                Latency
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/reports/heatmap">
+                <Grid3x3 className="h-4 w-4" />
+                Heatmap
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm" className="gap-2 text-muted-foreground">
+              <Link to="/admin/endpoints">
+                <Settings className="h-4 w-4" />
+                Manage endpoints
+              </Link>
+            </Button>
+          </div>
           
           {/* Stop Alarm Button */}
           {isAlarmActive && (
@@ -331,6 +456,62 @@ export const PortChecker = () => {
           )}
         </div>
 
+        {/* Open outages */}
+        {outages && outages.length > 0 && (
+          <div className="max-w-6xl mx-auto mb-6 grid gap-3 animate-fade-in">
+            {outages.map(outage => {
+              const closed = outage.incidents.filter(incident => states?.[incident.endpoint_id]?.status === "closed");
+              return (
+                <div
+                  key={outage.id}
+                  className="flex items-center gap-3 p-4 bg-destructive/10 border-2 border-destructive/40 rounded-lg"
+                >
+                  {outage.kind === "network" ? (
+                    <Globe className="h-6 w-6 text-destructive" />
+                  ) : (
+                    <Store className="h-6 w-6 text-destructive" />
+                  )}
+                  <div>
+                    <span className="text-destructive font-semibold">
+                      {outage.kind === "network" ? "ISP outage" : "Site down"}: {outage.title}
+                    </span>
+                    <span className="text-muted-foreground text-sm ml-2">
+                      {outage.kind === "network"
+                        ? `${closed.length} of ${outage.endpoint_count} endpoints closed`
+                        : "all endpoints closed"}{" "}
+                      • since {formatTimestamp(outage.opened_at)}
+                    </span>
+                  </div>
+                  {outage.acknowledged_at ? (
+                    <span className="ml-auto text-sm text-muted-foreground">
+                      {session
+                        ? `Acknowledged by ${outage.outage_acknowledgers?.email ?? "unknown user"}`
+                        : "Acknowledged"}
+                    </span>
+                  ) : (
+                    session && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="ml-auto"
+                        disabled={acknowledgeOutage.isPending}
+                        onClick={() =>
+                          acknowledgeOutage.mutate(outage.id, {
+                            onSuccess: () => toast.success("Outage acknowledged"),
+                            onError: err => toast.error(err.message),
+                          })
+                        }
+                      >
+                        Acknowledge
+                      </Button>
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Status Table */}
         <Card className="max-w-6xl mx-auto bg-card/50 backdrop-blur-xl border-2 border-border shadow-2xl animate-scale-in overflow-hidden">
           <div className="overflow-x-auto">
@@ -338,56 +519,79 @@ export const PortChecker = () => {
               <thead>
                 <tr className="border-b border-border bg-muted/50">
                   <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Brand</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Brain Net IP</th>
-                  <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Live IP</th>
-                  <th className="px-6 py-4 text-center text-sm font-semibold text-foreground">Brain Net IP Status</th>
-                  <th className="px-6 py-4 text-center text-sm font-semibold text-foreground">Live IP Status</th>
+                  <th className="px-6 py-4 text-left text-sm font-semibold text-foreground">Health</th>
+                  {roles.map(role => (
+                    <th key={role} className="px-6 py-4 text-left text-sm font-semibold text-foreground">{role}</th>
+                  ))}
+                  {roles.map(role => (
+                    <th key={role} className="px-6 py-4 text-center text-sm font-semibold text-foreground">{role} Status</th>
+                  ))}
                 </tr>
               </thead>
               <tbody>
+                {(isInventoryLoading || inventoryError) && (
+                  <tr>
+                    <td colSpan={roles.length * 2 + 2} className="px-6 py-8 text-center text-sm text-muted-foreground">
+                      {inventoryError ? "Failed to load brands" : "Loading brands..."}
+                    </td>
+                  </tr>
+                )}
                 {brandStatuses.map((brandStatus, index) => (
                   <tr 
                     key={brandStatus.brand}
-                    className="border-b border-border/50 hover:bg-muted/30 transition-colors animate-fade-in"
+                    className={`border-b border-border/50 hover:bg-muted/30 transition-colors animate-fade-in ${
+                      brandStatus.health
+                        ? BRAND_HEALTH_ROW_CLASS[brandStatus.health]
+                        : brandStatus.inMaintenance
+                          ? "bg-sky-400/5"
+                          : ""
+                    }`}
                     style={{ animationDelay: `${index * 0.05}s` }}
                   >
                     <td className="px-6 py-4 text-sm font-medium text-foreground">
                       {brandStatus.brand}
                     </td>
-                    <td className="px-6 py-4 text-sm text-muted-foreground">
-                      {brandStatus.brainNetIp || "-"}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-muted-foreground">
-                      {brandStatus.liveIp}
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="flex items-center justify-center gap-2">
-                        {brandStatus.brainNetIp && getStatusIcon(brandStatus.brainNetStatus)}
-                        <span className={`text-sm font-medium ${
-                          brandStatus.brainNetStatus === "open" 
-                            ? "text-success" 
-                            : brandStatus.brainNetStatus === "closed" 
-                            ? "text-destructive" 
-                            : "text-muted-foreground"
-                        }`}>
-                          {!brandStatus.brainNetIp || brandStatus.brainNetStatus === "idle" ? "-" : brandStatus.brainNetStatus.toUpperCase()}
+                    <td
+                      className="px-6 py-4"
+                      title={brandStatus.health === "failover" ? "Trading on its backup link" : undefined}
+                    >
+                      {brandStatus.health ? (
+                        <span className={`text-sm font-medium ${BRAND_HEALTH_TEXT_CLASS[brandStatus.health]}`}>
+                          {BRAND_HEALTH_LABELS[brandStatus.health]}
                         </span>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="flex items-center justify-center gap-2">
-                        {getStatusIcon(brandStatus.liveIpStatus)}
-                        <span className={`text-sm font-medium ${
-                          brandStatus.liveIpStatus === "open" 
-                            ? "text-success" 
-                            : brandStatus.liveIpStatus === "closed" 
-                            ? "text-destructive" 
-                            : "text-muted-foreground"
-                        }`}>
-                          {brandStatus.liveIpStatus === "idle" ? "-" : brandStatus.liveIpStatus.toUpperCase()}
+                      ) : (
+                        <span className={`text-sm font-medium ${STATUS_TEXT_CLASS[brandStatus.inMaintenance ? "maintenance" : "idle"]}`}>
+                          {STATUS_LABELS[brandStatus.inMaintenance ? "maintenance" : "idle"]}
                         </span>
-                      </div>
+                      )}
                     </td>
+                    {roles.map(role => {
+                      const endpoint = brandStatus.endpoints.find(e => e.role === role);
+                      return (
+                        <td key={role} className="px-6 py-4 text-sm text-muted-foreground">
+                          {endpoint ? `${endpoint.ip}:${endpoint.port}` : "-"}
+                        </td>
+                      );
+                    })}
+                    {roles.map(role => {
+                      const endpoint = brandStatus.endpoints.find(e => e.role === role);
+                      return (
+                        <td key={role} className="px-6 py-4">
+                          <div
+                            className="flex items-center justify-center gap-2"
+                            title={endpoint?.reason ? `${REASON_LABELS[endpoint.reason] ?? endpoint.reason}${endpoint.message ? ` - ${endpoint.message}` : ""}` : undefined}
+                          >
+                            {endpoint && getStatusIcon(endpoint.status)}
+                            <span className={`text-sm font-medium ${STATUS_TEXT_CLASS[endpoint?.status ?? "idle"]}`}>
+                              {STATUS_LABELS[endpoint?.status ?? "idle"]}
+                            </span>
+                            {(endpoint?.status === "open" || endpoint?.status === "degraded") && endpoint.timeMs !== undefined && (
+                              <span className="text-xs text-muted-foreground">{endpoint.timeMs} ms</span>
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
                   </tr>
                 ))}
               </tbody>
@@ -396,7 +600,7 @@ export const PortChecker = () => {
         </Card>
 
         {/* Port Status Events Section */}
-        {brandStatuses.some(b => b.brainNetClosedAt || b.brainNetOpenedAt || b.liveIpClosedAt || b.liveIpOpenedAt) && (
+        {brandStatuses.some(b => b.endpoints.some(e => e.closedAt || e.openedAt || e.errorSince || e.flappingSince || e.degradedSince)) && (
           <Card className="max-w-6xl mx-auto mt-6 bg-card/50 backdrop-blur-xl border-2 border-border shadow-xl animate-fade-in overflow-hidden">
             <div className="p-4">
               <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -406,54 +610,73 @@ export const PortChecker = () => {
               <div className="grid gap-3">
                 {brandStatuses.map(brandStatus => (
                   <div key={brandStatus.brand}>
-                    {/* Brain Net Closed */}
-                    {brandStatus.brainNetClosedAt && (
-                      <div className="flex items-center gap-3 p-3 bg-destructive/10 border border-destructive/30 rounded-lg mb-2">
-                        <XCircle className="h-5 w-5 text-destructive" />
-                        <div>
-                          <span className="font-semibold text-foreground">{brandStatus.brand}</span>
-                          <span className="text-muted-foreground"> - Brain Net IP ({brandStatus.brainNetIp})</span>
-                          <span className="text-destructive font-medium ml-2">CLOSED</span>
-                          <span className="text-muted-foreground text-sm ml-2">since {brandStatus.brainNetClosedAt}</span>
-                        </div>
-                      </div>
-                    )}
-                    {/* Brain Net Opened */}
-                    {brandStatus.brainNetOpenedAt && (
-                      <div className="flex items-center gap-3 p-3 bg-success/10 border border-success/30 rounded-lg mb-2">
-                        <CheckCircle2 className="h-5 w-5 text-success" />
-                        <div>
-                          <span className="font-semibold text-foreground">{brandStatus.brand}</span>
-                          <span className="text-muted-foreground"> - Brain Net IP ({brandStatus.brainNetIp})</span>
-                          <span className="text-success font-medium ml-2">OPENED</span>
-                          <span className="text-muted-foreground text-sm ml-2">at {brandStatus.brainNetOpenedAt}</span>
-                        </div>
-                      </div>
-                    )}
-                    {/* Live IP Closed */}
-                    {brandStatus.liveIpClosedAt && (
-                      <div className="flex items-center gap-3 p-3 bg-destructive/10 border border-destructive/30 rounded-lg mb-2">
-                        <XCircle className="h-5 w-5 text-destructive" />
-                        <div>
-                          <span className="font-semibold text-foreground">{brandStatus.brand}</span>
-                          <span className="text-muted-foreground"> - Live IP ({brandStatus.liveIp})</span>
-                          <span className="text-destructive font-medium ml-2">CLOSED</span>
-                          <span className="text-muted-foreground text-sm ml-2">since {brandStatus.liveIpClosedAt}</span>
-                        </div>
-                      </div>
-                    )}
-                    {/* Live IP Opened */}
-                    {brandStatus.liveIpOpenedAt && (
-                      <div className="flex items-center gap-3 p-3 bg-success/10 border border-success/30 rounded-lg mb-2">
-                        <CheckCircle2 className="h-5 w-5 text-success" />
-                        <div>
-                          <span className="font-semibold text-foreground">{brandStatus.brand}</span>
-                          <span className="text-muted-foreground"> - Live IP ({brandStatus.liveIp})</span>
-                          <span className="text-success font-medium ml-2">OPENED</span>
-                          <span className="text-muted-foreground text-sm ml-2">at {brandStatus.liveIpOpenedAt}</span>
-                        </div>
+                    {brandStatus.endpoints.map(endpoint => (
+                      <div key={endpoint.id}>
+                        {/* Closed */}
+                        {endpoint.closedAt && (
+                          <div className="flex items-center gap-3 p-3 bg-destructive/10 border border-destructive/30 rounded-lg mb-2">
+                            <XCircle className="h-5 w-5 text-destructive" />
+                            <div>
+                              <span className="font-semibold text-foreground">{brandStatus.brand}</span>
+                              <span className="text-muted-foreground"> - {endpoint.role} ({endpoint.ip})</span>
+                              <span className="text-destructive font-medium ml-2">CLOSED</span>
+                              <span className="text-muted-foreground text-sm ml-2">since {endpoint.closedAt}</span>
+                            </div>
+                          </div>
+                        )}
+                        {/* Unknown */}
+                        {endpoint.errorSince && (
+                          <div className="flex items-center gap-3 p-3 bg-orange-400/10 border border-orange-400/30 rounded-lg mb-2">
+                            <AlertTriangle className="h-5 w-5 text-orange-400" />
+                            <div>
+                              <span className="font-semibold text-foreground">{brandStatus.brand}</span>
+                              <span className="text-muted-foreground"> - {endpoint.role} ({endpoint.ip})</span>
+                              <span className="text-orange-400 font-medium ml-2">UNKNOWN</span>
+                              <span className="text-muted-foreground text-sm ml-2">
+                                since {endpoint.errorSince}
+                                {endpoint.reason && ` • ${REASON_LABELS[endpoint.reason] ?? endpoint.reason}`}
+                              </span>
+                            </div>
+                          </div>
+                        )}
+                        {/* Flapping */}
+                        {endpoint.flappingSince && (
+                          <div className="flex items-center gap-3 p-3 bg-purple-400/10 border border-purple-400/30 rounded-lg mb-2">
+                            <ArrowUpDown className="h-5 w-5 text-purple-400" />
+                            <div>
+                              <span className="font-semibold text-foreground">{brandStatus.brand}</span>
+                              <span className="text-muted-foreground"> - {endpoint.role} ({endpoint.ip})</span>
+                              <span className="text-purple-400 font-medium ml-2">FLAPPING</span>
+                              <span className="text-muted-foreground text-sm ml-2">since {endpoint.flappingSince}</span>
+                            </div>
+                          </div>
+                        )}
+                        {/* Degraded */}
+                        {endpoint.degradedSince && (
+                          <div className="flex items-center gap-3 p-3 bg-warning/10 border border-warning/30 rounded-lg mb-2">
+                            <Gauge className="h-5 w-5 text-warning" />
+                            <div>
+                              <span className="font-semibold text-foreground">{brandStatus.brand}</span>
+                              <span className="text-muted-foreground"> - {endpoint.role} ({endpoint.ip})</span>
+                              <span className="text-warning font-medium ml-2">DEGRADED</span>
+                              <span className="text-muted-foreground text-sm ml-2">since {endpoint.degradedSince}</span>
+                            </div>
+                          </div>
+                        )}
+                        {/* Opened */}
+                        {endpoint.openedAt && (
+                          <div className="flex items-center gap-3 p-3 bg-success/10 border border-success/30 rounded-lg mb-2">
+                            <CheckCircle2 className="h-5 w-5 text-success" />
+                            <div>
+                              <span className="font-semibold text-foreground">{brandStatus.brand}</span>
+                              <span className="text-muted-foreground"> - {endpoint.role} ({endpoint.ip})</span>
+                              <span className="text-success font-medium ml-2">OPENED</span>
+                              <span className="text-muted-foreground text-sm ml-2">at {endpoint.openedAt}</span>
+                            </div>
+                          </div>
+                        )}
                       </div>
-                    )}
+                    ))}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,413 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError, type BrandWithEndpoints } from "@/hooks/use-inventory";
+import { useAlertRuleMutation } from "@/hooks/use-alert-rules";
+import {
+  ALERT_CHANNELS,
+  ALERT_CONDITIONS,
+  ALERT_SEVERITIES,
+  CHANNEL_LABELS,
+  CONDITION_LABELS,
+  ESCALATING_CONDITIONS,
+  SEVERITY_LABELS,
+} from "@/lib/alert-rules";
+
+// Select items cannot have an empty value, so "no policy" needs a stand-in
+const NO_POLICY = "none";
+
+// The policy a rule is saved with; the field is hidden and ignored for
+// conditions that cannot escalate
+const effectivePolicy = (values: Pick<RuleValues, "condition" | "escalation_policy_id">) =>
+  ESCALATING_CONDITIONS.includes(values.condition) && values.escalation_policy_id !== NO_POLICY
+    ? values.escalation_policy_id
+    : null;
+
+const ruleSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    condition: z.enum(ALERT_CONDITIONS),
+    duration_minutes: z.coerce
+      .number()
+      .min(0, "Must be between 0 and 1440 minutes")
+      .max(1440, "Must be between 0 and 1440 minutes"),
+    scope: z.enum(["all", "tag", "endpoint"]),
+    tag: z.string().trim(),
+    endpoint_id: z.string(),
+    severity: z.enum(ALERT_SEVERITIES),
+    channels: z.array(z.enum(ALERT_CHANNELS)),
+    escalation_policy_id: z.string(),
+    enabled: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.scope === "tag" && !values.tag) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tag is required", path: ["tag"] });
+    }
+    if (values.scope === "endpoint" && !values.endpoint_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pick an endpoint", path: ["endpoint_id"] });
+    }
+    if (values.channels.length === 0 && !effectivePolicy(values)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: ESCALATING_CONDITIONS.includes(values.condition)
+          ? "Pick a channel or an escalation policy"
+          : "Pick a channel",
+        path: ["channels"],
+      });
+    }
+  });
+
+type RuleValues = z.infer<typeof ruleSchema>;
+
+const toFormValues = (rule?: Tables<"alert_rules">): RuleValues =>
+  rule
+    ? {
+        name: rule.name,
+        condition: rule.condition as RuleValues["condition"],
+        duration_minutes: rule.duration_seconds / 60,
+        scope: rule.endpoint_id ? "endpoint" : rule.tag ? "tag" : "all",
+        tag: rule.tag ?? "",
+        endpoint_id: rule.endpoint_id ?? "",
+        severity: rule.severity as RuleValues["severity"],
+        channels: rule.channels as RuleValues["channels"],
+        escalation_policy_id: rule.escalation_policy_id ?? NO_POLICY,
+        enabled: rule.enabled,
+      }
+    : {
+        name: "",
+        condition: "closed",
+        duration_minutes: 2,
+        scope: "all",
+        tag: "",
+        endpoint_id: "",
+        severity: "critical",
+        channels: ["email"],
+        escalation_policy_id: NO_POLICY,
+        enabled: true,
+      };
+
+interface AlertRuleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: Tables<"alert_rules">;
+  brands: BrandWithEndpoints[];
+  tagSuggestions: string[];
+  policies: Tables<"escalation_policies">[];
+}
+
+export const AlertRuleFormDialog = ({
+  open,
+  onOpenChange,
+  rule,
+  brands,
+  tagSuggestions,
+  policies,
+}: AlertRuleFormDialogProps) => {
+  const form = useForm<RuleValues>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: toFormValues(rule),
+  });
+  const scope = form.watch("scope");
+  const condition = form.watch("condition");
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(rule));
+    }
+  }, [open, rule, form]);
+
+  const saveRule = useAlertRuleMutation(async (values: RuleValues) => {
+    const row = {
+      name: values.name,
+      condition: values.condition,
+      duration_seconds: Math.round(values.duration_minutes * 60),
+      tag: values.scope === "tag" ? values.tag : null,
+      endpoint_id: values.scope === "endpoint" ? values.endpoint_id : null,
+      severity: values.severity,
+      channels: values.channels,
+      escalation_policy_id: effectivePolicy(values),
+      enabled: values.enabled,
+    };
+    const { error } = rule
+      ? await supabase.from("alert_rules").update(row).eq("id", rule.id)
+      : await supabase.from("alert_rules").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: RuleValues) => {
+    saveRule.mutate(values, {
+      onSuccess: () => {
+        toast.success(`${values.name} saved`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit alert rule" : "Add alert rule"}</DialogTitle>
+          <DialogDescription>
+            Alerts once per channel each time a matching endpoint enters the condition, then follows the escalation
+            policy if it has one. Only closure and outage rules can escalate.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Live IP closed for 5 minutes" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="condition"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>When the port is</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ALERT_CONDITIONS.map(condition => (
+                          <SelectItem key={condition} value={condition}>
+                            {CONDITION_LABELS[condition]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="duration_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>For at least (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={1440} step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies to</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="all">All endpoints</SelectItem>
+                      <SelectItem value="tag">Endpoints with a tag</SelectItem>
+                      <SelectItem value="endpoint">One endpoint</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {scope === "tag" && (
+              <FormField
+                control={form.control}
+                name="tag"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tag</FormLabel>
+                    <FormControl>
+                      <Input placeholder="live-ip" list="alert-rule-tag-suggestions" {...field} />
+                    </FormControl>
+                    <datalist id="alert-rule-tag-suggestions">
+                      {tagSuggestions.map(tag => (
+                        <option key={tag} value={tag} />
+                      ))}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {scope === "endpoint" && (
+              <FormField
+                control={form.control}
+                name="endpoint_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endpoint</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pick an endpoint" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {brands.flatMap(brand =>
+                          brand.endpoints.map(endpoint => (
+                            <SelectItem key={endpoint.id} value={endpoint.id}>
+                              {brand.name} - {endpoint.role} ({endpoint.ip})
+                            </SelectItem>
+                          ))
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="severity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Severity</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ALERT_SEVERITIES.map(severity => (
+                        <SelectItem key={severity} value={severity}>
+                          {SEVERITY_LABELS[severity]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="channels"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Send by</FormLabel>
+                  <div className="flex gap-6">
+                    {ALERT_CHANNELS.map(channel => (
+                      <label key={channel} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(channel)}
+                          onCheckedChange={checked =>
+                            field.onChange(
+                              checked ? [...field.value, channel] : field.value.filter(c => c !== channel)
+                            )
+                          }
+                        />
+                        {CHANNEL_LABELS[channel]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {ESCALATING_CONDITIONS.includes(condition) && (
+              <FormField
+                control={form.control}
+                name="escalation_policy_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Escalation policy</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_POLICY}>None</SelectItem>
+                        {policies.map(policy => (
+                          <SelectItem key={policy.id} value={policy.id}>
+                            {policy.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <div>
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>Disabled rules are kept but never fire.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveRule.isPending}>
+                {saveRule.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,133 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError, useInventoryMutation } from "@/hooks/use-inventory";
+import { hostnameSchema, portSchema } from "@/lib/validation";
+
+const brandSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  host: hostnameSchema,
+  default_port: portSchema,
+});
+
+type BrandValues = z.infer<typeof brandSchema>;
+
+interface BrandFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brand?: Tables<"brands">;
+}
+
+export const BrandFormDialog = ({ open, onOpenChange, brand }: BrandFormDialogProps) => {
+  const form = useForm<BrandValues>({
+    resolver: zodResolver(brandSchema),
+    defaultValues: { name: "", host: "", default_port: 20000 },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(
+        brand
+          ? { name: brand.name, host: brand.host, default_port: brand.default_port }
+          : { name: "", host: "", default_port: 20000 }
+      );
+    }
+  }, [open, brand, form]);
+
+  const saveBrand = useInventoryMutation(async ({ name, host, default_port }: BrandValues) => {
+    const row = { name, host, default_port };
+    const { error } = brand
+      ? await supabase.from("brands").update(row).eq("id", brand.id)
+      : await supabase.from("brands").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: BrandValues) => {
+    saveBrand.mutate(values, {
+      onSuccess: () => {
+        toast.success(brand ? `${values.name} updated` : `${values.name} added`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{brand ? "Edit brand" : "Add brand"}</DialogTitle>
+          <DialogDescription>The host is probed when no endpoint IP is given.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Bareeze" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="host"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Host</FormLabel>
+                  <FormControl>
+                    <Input placeholder="barz.eastgateindustries.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="default_port"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Default port</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={65535} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveBrand.isPending}>
+                {saveBrand.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
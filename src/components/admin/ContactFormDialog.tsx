@@ -0,0 +1,295 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useContactMutation, type ContactWithBrands } from "@/hooks/use-contacts";
+import { ALERT_CHANNELS, CHANNEL_LABELS, parseTags } from "@/lib/alert-rules";
+import { isWhatsAppNumber, normalizePhoneNumber } from "@/lib/validation";
+
+const contactSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    title: z.string().trim(),
+    email: z.union([z.literal(""), z.string().trim().email("Enter an email address")]),
+    phone: z
+      .string()
+      .trim()
+      .refine(value => !value || isWhatsAppNumber(value), "Enter a phone number with country code"),
+    channels: z.array(z.enum(ALERT_CHANNELS)).min(1, "Pick at least one channel"),
+    brand_ids: z.array(z.string()),
+    tags: z.string(),
+    enabled: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.channels.includes("email") && !values.email) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Needed for email alerts", path: ["email"] });
+    }
+    if (values.channels.includes("whatsapp") && !values.phone) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Needed for WhatsApp alerts", path: ["phone"] });
+    }
+  });
+
+type ContactValues = z.infer<typeof contactSchema>;
+
+const toFormValues = (contact?: ContactWithBrands): ContactValues =>
+  contact
+    ? {
+        name: contact.name,
+        title: contact.title ?? "",
+        email: contact.email ?? "",
+        phone: contact.phone ?? "",
+        channels: contact.channels as ContactValues["channels"],
+        brand_ids: contact.contact_brands.map(link => link.brand_id),
+        tags: contact.tags.join(", "),
+        enabled: contact.enabled,
+      }
+    : { name: "", title: "", email: "", phone: "", channels: ["email"], brand_ids: [], tags: "", enabled: true };
+
+interface ContactFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact?: ContactWithBrands;
+  brands: Tables<"brands">[];
+  tagSuggestions: string[];
+}
+
+export const ContactFormDialog = ({ open, onOpenChange, contact, brands, tagSuggestions }: ContactFormDialogProps) => {
+  const form = useForm<ContactValues>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: toFormValues(contact),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(contact));
+    }
+  }, [open, contact, form]);
+
+  const saveContact = useContactMutation(async (values: ContactValues) => {
+    const row = {
+      name: values.name,
+      title: values.title || null,
+      email: values.email || null,
+      phone: values.phone ? normalizePhoneNumber(values.phone) : null,
+      channels: values.channels,
+      tags: parseTags(values.tags),
+      enabled: values.enabled,
+    };
+    const { data, error } = contact
+      ? await supabase.from("contacts").update(row).eq("id", contact.id).select("id").single()
+      : await supabase.from("contacts").insert(row).select("id").single();
+    if (error) throw error;
+
+    // Replace the brand links wholesale; there are only ever a handful
+    const { error: unlinkError } = await supabase.from("contact_brands").delete().eq("contact_id", data.id);
+    if (unlinkError) throw unlinkError;
+    if (values.brand_ids.length > 0) {
+      const { error: linkError } = await supabase
+        .from("contact_brands")
+        .insert(values.brand_ids.map(brand_id => ({ contact_id: data.id, brand_id })));
+      if (linkError) throw linkError;
+    }
+  });
+
+  const onSubmit = (values: ContactValues) => {
+    saveContact.mutate(values, {
+      onSuccess: () => {
+        toast.success(`${values.name} saved`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{contact ? "Edit contact" : "Add contact"}</DialogTitle>
+          <DialogDescription>
+            Gets alerts for the endpoints of the chosen brands and tags, or for every endpoint if none are chosen.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ali Raza" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Store IT" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="it@eastgateindustries.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>WhatsApp number</FormLabel>
+                    <FormControl>
+                      <Input placeholder="923001234567" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="channels"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Send by</FormLabel>
+                  <div className="flex gap-6">
+                    {ALERT_CHANNELS.map(channel => (
+                      <label key={channel} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(channel)}
+                          onCheckedChange={checked =>
+                            field.onChange(
+                              checked ? [...field.value, channel] : field.value.filter(c => c !== channel)
+                            )
+                          }
+                        />
+                        {CHANNEL_LABELS[channel]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="brand_ids"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Brands</FormLabel>
+                  <div className="grid grid-cols-2 gap-2 rounded-lg border border-border p-3">
+                    {brands.map(brand => (
+                      <label key={brand.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(brand.id)}
+                          onCheckedChange={checked =>
+                            field.onChange(
+                              checked ? [...field.value, brand.id] : field.value.filter(id => id !== brand.id)
+                            )
+                          }
+                        />
+                        {brand.name}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="live-ip" list="contact-tag-suggestions" {...field} />
+                  </FormControl>
+                  <datalist id="contact-tag-suggestions">
+                    {tagSuggestions.map(tag => (
+                      <option key={tag} value={tag} />
+                    ))}
+                  </datalist>
+                  <FormDescription>Comma-separated. Endpoints with any of these tags are covered too.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <div>
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>Disabled contacts are kept but get no alerts.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveContact.isPending}>
+                {saveContact.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
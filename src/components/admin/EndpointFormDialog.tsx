@@ -0,0 +1,388 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError, useInventoryMutation } from "@/hooks/use-inventory";
+import { ipv4Schema, portSchema } from "@/lib/validation";
+import { parseTags } from "@/lib/alert-rules";
+
+const endpointSchema = z
+  .object({
+    role: z.string().trim().min(1, "Role is required"),
+    ip: ipv4Schema,
+    port: portSchema,
+    tags: z.string(),
+    timeout_seconds: z.coerce
+      .number()
+      .int("Timeout must be a whole number")
+      .min(1, "Timeout must be between 1 and 30 seconds")
+      .max(30, "Timeout must be between 1 and 30 seconds"),
+    interval_seconds: z.coerce
+      .number()
+      .int("Interval must be a whole number")
+      .min(10, "Interval must be between 10 and 3600 seconds")
+      .max(3600, "Interval must be between 10 and 3600 seconds"),
+    fail_threshold: z.coerce
+      .number()
+      .int("Must be a whole number")
+      .min(1, "Must be between 1 and 20 checks")
+      .max(20, "Must be between 1 and 20 checks"),
+    recover_threshold: z.coerce
+      .number()
+      .int("Must be a whole number")
+      .min(1, "Must be between 1 and 20 checks")
+      .max(20, "Must be between 1 and 20 checks"),
+    flap_window_seconds: z.coerce
+      .number()
+      .int("Window must be a whole number")
+      .min(60, "Window must be between 60 and 86400 seconds")
+      .max(86400, "Window must be between 60 and 86400 seconds"),
+    flap_threshold: z.coerce
+      .number()
+      .int("Must be a whole number")
+      .min(2, "Must be between 2 and 100 changes")
+      .max(100, "Must be between 2 and 100 changes"),
+    // Left empty to turn the slowness check off
+    degraded_ms: z.preprocess(
+      value => (value === "" ? null : value),
+      z.coerce
+        .number()
+        .int("Must be a whole number")
+        .min(1, "Must be between 1 and 30000 ms")
+        .max(30000, "Must be between 1 and 30000 ms")
+        .nullable()
+    ),
+    position: z.coerce.number().int("Order must be a whole number"),
+    enabled: z.boolean(),
+  })
+  .refine(values => values.degraded_ms === null || values.degraded_ms < values.timeout_seconds * 1000, {
+    message: "Must be below the timeout",
+    path: ["degraded_ms"],
+  });
+
+type EndpointValues = z.infer<typeof endpointSchema>;
+
+const toFormValues = (brand: Tables<"brands">, endpoint?: Tables<"endpoints">): EndpointValues =>
+  endpoint
+    ? {
+        role: endpoint.role,
+        ip: endpoint.ip,
+        port: endpoint.port,
+        tags: endpoint.tags.join(", "),
+        timeout_seconds: endpoint.timeout_seconds,
+        interval_seconds: endpoint.interval_seconds,
+        fail_threshold: endpoint.fail_threshold,
+        recover_threshold: endpoint.recover_threshold,
+        flap_window_seconds: endpoint.flap_window_seconds,
+        flap_threshold: endpoint.flap_threshold,
+        degraded_ms: endpoint.degraded_ms,
+        position: endpoint.position,
+        enabled: endpoint.enabled,
+      }
+    : {
+        role: "",
+        ip: "",
+        port: brand.default_port,
+        tags: "",
+        timeout_seconds: 3,
+        interval_seconds: 30,
+        fail_threshold: 3,
+        recover_threshold: 2,
+        flap_window_seconds: 900,
+        flap_threshold: 4,
+        degraded_ms: null,
+        position: 0,
+        enabled: true,
+      };
+
+interface EndpointFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brand: Tables<"brands">;
+  endpoint?: Tables<"endpoints">;
+  roleSuggestions: string[];
+}
+
+export const EndpointFormDialog = ({
+  open,
+  onOpenChange,
+  brand,
+  endpoint,
+  roleSuggestions,
+}: EndpointFormDialogProps) => {
+  const form = useForm<EndpointValues>({
+    resolver: zodResolver(endpointSchema),
+    defaultValues: toFormValues(brand, endpoint),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(brand, endpoint));
+    }
+  }, [open, brand, endpoint, form]);
+
+  const saveEndpoint = useInventoryMutation(async (values: EndpointValues) => {
+    const row = {
+      role: values.role,
+      ip: values.ip,
+      port: values.port,
+      tags: parseTags(values.tags),
+      timeout_seconds: values.timeout_seconds,
+      interval_seconds: values.interval_seconds,
+      fail_threshold: values.fail_threshold,
+      recover_threshold: values.recover_threshold,
+      flap_window_seconds: values.flap_window_seconds,
+      flap_threshold: values.flap_threshold,
+      degraded_ms: values.degraded_ms,
+      position: values.position,
+      enabled: values.enabled,
+    };
+    const { error } = endpoint
+      ? await supabase.from("endpoints").update(row).eq("id", endpoint.id)
+      : await supabase.from("endpoints").insert({ ...row, brand_id: brand.id });
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: EndpointValues) => {
+    saveEndpoint.mutate(values, {
+      onSuccess: () => {
+        toast.success(`${brand.name} - ${values.role} saved`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{endpoint ? "Edit endpoint" : "Add endpoint"}</DialogTitle>
+          <DialogDescription>{brand.name}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Live IP" list="endpoint-role-suggestions" {...field} />
+                  </FormControl>
+                  <datalist id="endpoint-role-suggestions">
+                    {roleSuggestions.map(role => (
+                      <option key={role} value={role} />
+                    ))}
+                  </datalist>
+                  <FormDescription>Endpoints with the same role share a dashboard column.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="ip"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>IP address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="202.59.94.86" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="port"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Port</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={65535} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="live-ip, ptcl" {...field} />
+                  </FormControl>
+                  <FormDescription>Comma-separated. Alert rules can target every endpoint with a tag.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="timeout_seconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timeout (s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={30} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="interval_seconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Check every (s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={10} max={3600} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="degraded_ms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Degraded above (ms)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={30000} placeholder="Off" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormDescription>Open ports slower than this to connect show as degraded.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fail_threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Closed after (checks)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={20} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="recover_threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Open after (checks)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={20} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="flap_threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Flapping after (changes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={2} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="flap_window_seconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Within (s)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={60} max={86400} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="position"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Order</FormLabel>
+                  <FormControl>
+                    <Input type="number" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <div>
+                    <FormLabel>Monitored</FormLabel>
+                    <FormDescription>Disabled endpoints are kept but not checked.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveEndpoint.isPending}>
+                {saveEndpoint.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
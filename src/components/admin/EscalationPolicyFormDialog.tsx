@@ -0,0 +1,140 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useEscalationPolicyMutation } from "@/hooks/use-escalation-policies";
+
+const policySchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  repeat_every_minutes: z.preprocess(
+    value => (value === "" ? null : value),
+    z.coerce
+      .number()
+      .int("Must be whole minutes")
+      .min(5, "Must be between 5 and 10080 minutes")
+      .max(10080, "Must be between 5 and 10080 minutes")
+      .nullable()
+  ),
+});
+
+type PolicyValues = z.infer<typeof policySchema>;
+
+const toFormValues = (policy?: Tables<"escalation_policies">): PolicyValues =>
+  policy
+    ? { name: policy.name, repeat_every_minutes: policy.repeat_every_minutes }
+    : { name: "", repeat_every_minutes: 60 };
+
+interface EscalationPolicyFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy?: Tables<"escalation_policies">;
+}
+
+export const EscalationPolicyFormDialog = ({ open, onOpenChange, policy }: EscalationPolicyFormDialogProps) => {
+  const form = useForm<PolicyValues>({
+    resolver: zodResolver(policySchema),
+    defaultValues: toFormValues(policy),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(policy));
+    }
+  }, [open, policy, form]);
+
+  const savePolicy = useEscalationPolicyMutation(async (values: PolicyValues) => {
+    const row = { name: values.name, repeat_every_minutes: values.repeat_every_minutes ?? null };
+    const { error } = policy
+      ? await supabase.from("escalation_policies").update(row).eq("id", policy.id)
+      : await supabase.from("escalation_policies").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: PolicyValues) => {
+    savePolicy.mutate(values, {
+      onSuccess: () => {
+        toast.success(`${values.name} saved`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{policy ? "Edit escalation policy" : "Add escalation policy"}</DialogTitle>
+          <DialogDescription>Add the steps once the policy is saved.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Store link down" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="repeat_every_minutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeat every (min)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={5} max={10080} placeholder="Never" {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormDescription>
+                    All steps are sent again this often until the incident is acknowledged or the port recovers. Leave
+                    empty to send them once.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={savePolicy.isPending}>
+                {savePolicy.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
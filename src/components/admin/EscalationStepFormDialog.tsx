@@ -0,0 +1,176 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useEscalationPolicyMutation } from "@/hooks/use-escalation-policies";
+import { ALERT_CHANNELS, CHANNEL_LABELS } from "@/lib/alert-rules";
+import { isWhatsAppNumber, normalizePhoneNumber } from "@/lib/validation";
+
+const stepSchema = z
+  .object({
+    delay_minutes: z.coerce
+      .number()
+      .int("Must be whole minutes")
+      .min(0, "Must be between 0 and 10080 minutes")
+      .max(10080, "Must be between 0 and 10080 minutes"),
+    channel: z.enum(ALERT_CHANNELS),
+    recipient: z.string().trim().min(1, "Recipient is required"),
+  })
+  .superRefine((values, ctx) => {
+    if (values.channel === "email" && !z.string().email().safeParse(values.recipient).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter an email address", path: ["recipient"] });
+    }
+    if (values.channel === "whatsapp" && !isWhatsAppNumber(values.recipient)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Enter a phone number with country code",
+        path: ["recipient"],
+      });
+    }
+  });
+
+type StepValues = z.infer<typeof stepSchema>;
+
+const toFormValues = (step?: Tables<"escalation_steps">): StepValues =>
+  step
+    ? { delay_minutes: step.delay_minutes, channel: step.channel as StepValues["channel"], recipient: step.recipient }
+    : { delay_minutes: 2, channel: "email", recipient: "" };
+
+interface EscalationStepFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: Tables<"escalation_policies">;
+  step?: Tables<"escalation_steps">;
+}
+
+export const EscalationStepFormDialog = ({ open, onOpenChange, policy, step }: EscalationStepFormDialogProps) => {
+  const form = useForm<StepValues>({
+    resolver: zodResolver(stepSchema),
+    defaultValues: toFormValues(step),
+  });
+  const channel = form.watch("channel");
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(step));
+    }
+  }, [open, step, form]);
+
+  const saveStep = useEscalationPolicyMutation(async (values: StepValues) => {
+    const row = {
+      policy_id: policy.id,
+      delay_minutes: values.delay_minutes,
+      channel: values.channel,
+      recipient: values.channel === "whatsapp" ? normalizePhoneNumber(values.recipient) : values.recipient,
+    };
+    const { error } = step
+      ? await supabase.from("escalation_steps").update(row).eq("id", step.id)
+      : await supabase.from("escalation_steps").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: StepValues) => {
+    saveStep.mutate(values, {
+      onSuccess: () => {
+        toast.success("Step saved");
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{step ? "Edit step" : "Add step"}</DialogTitle>
+          <DialogDescription>
+            Part of {policy.name}. The delay counts from when the port entered the rule's condition.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="delay_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>After (min)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={10080} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="channel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Send by</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ALERT_CHANNELS.map(c => (
+                          <SelectItem key={c} value={c}>
+                            {CHANNEL_LABELS[c]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="recipient"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{channel === "email" ? "Email address" : "Phone number"}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={channel === "email" ? "it@eastgateindustries.com" : "923001234567"} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveStep.isPending}>
+                {saveStep.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,431 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { addDays, endOfDay, format, set, startOfDay } from "date-fns";
+import { CalendarIcon, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError, type BrandWithEndpoints } from "@/hooks/use-inventory";
+import { useMaintenanceMutation } from "@/hooks/use-maintenance";
+import { MAX_RECURRING_MS, RECURRENCE_LABELS, RECURRENCES } from "@/lib/maintenance";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The date picked in the calendar at the time typed beside it, in local time
+const withTime = (date: Date, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return set(date, { hours, minutes, seconds: 0, milliseconds: 0 });
+};
+
+const maintenanceSchema = z
+  .object({
+    scope: z.enum(["all", "brand", "endpoint", "tag"]),
+    brand_id: z.string(),
+    endpoint_id: z.string(),
+    tag: z.string().trim(),
+    start_date: z.date({ required_error: "Pick a date" }),
+    start_time: z.string().regex(TIME_PATTERN, "Enter a time such as 02:00"),
+    end_date: z.date({ required_error: "Pick a date" }),
+    end_time: z.string().regex(TIME_PATTERN, "Enter a time such as 06:00"),
+    recurrence: z.enum(RECURRENCES),
+    repeat_until: z.date().optional(),
+    reason: z.string().trim(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.scope === "brand" && !values.brand_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pick a brand", path: ["brand_id"] });
+    }
+    if (values.scope === "endpoint" && !values.endpoint_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Pick an endpoint", path: ["endpoint_id"] });
+    }
+    if (values.scope === "tag" && !values.tag) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tag is required", path: ["tag"] });
+    }
+
+    const length =
+      withTime(values.end_date, values.end_time).getTime() - withTime(values.start_date, values.start_time).getTime();
+    if (length <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must end after it starts", path: ["end_time"] });
+    } else if (values.recurrence !== "none" && length > MAX_RECURRING_MS[values.recurrence]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Too long to repeat ${RECURRENCE_LABELS[values.recurrence].toLowerCase()}`,
+        path: ["recurrence"],
+      });
+    }
+    if (values.recurrence !== "none" && values.repeat_until && values.repeat_until < startOfDay(values.start_date)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Must be after the first occurrence",
+        path: ["repeat_until"],
+      });
+    }
+  });
+
+type MaintenanceValues = z.infer<typeof maintenanceSchema>;
+
+const toFormValues = (maintenance?: Tables<"maintenance_windows">): MaintenanceValues => {
+  if (!maintenance) {
+    // Upstream work is usually scheduled for the early hours
+    const tomorrow = startOfDay(addDays(new Date(), 1));
+    return {
+      scope: "all",
+      brand_id: "",
+      endpoint_id: "",
+      tag: "",
+      start_date: tomorrow,
+      start_time: "02:00",
+      end_date: tomorrow,
+      end_time: "06:00",
+      recurrence: "none",
+      repeat_until: undefined,
+      reason: "",
+    };
+  }
+
+  const start = new Date(maintenance.starts_at);
+  const end = new Date(maintenance.ends_at);
+  return {
+    scope: maintenance.endpoint_id ? "endpoint" : maintenance.brand_id ? "brand" : maintenance.tag ? "tag" : "all",
+    brand_id: maintenance.brand_id ?? "",
+    endpoint_id: maintenance.endpoint_id ?? "",
+    tag: maintenance.tag ?? "",
+    start_date: startOfDay(start),
+    start_time: format(start, "HH:mm"),
+    end_date: startOfDay(end),
+    end_time: format(end, "HH:mm"),
+    recurrence: maintenance.recurrence as MaintenanceValues["recurrence"],
+    repeat_until: maintenance.repeat_until ? startOfDay(new Date(maintenance.repeat_until)) : undefined,
+    reason: maintenance.reason ?? "",
+  };
+};
+
+interface DatePickerFieldProps {
+  value: Date | undefined;
+  onChange: (date: Date | undefined) => void;
+  placeholder?: string;
+}
+
+// A form control opening calendar.tsx in a popover
+const DatePickerField = ({ value, onChange, placeholder = "Pick a date" }: DatePickerFieldProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <FormControl>
+        <Button variant="outline" className="w-full justify-start gap-2 font-normal">
+          <CalendarIcon className="h-4 w-4" />
+          {value ? format(value, "EEE d MMM yyyy") : <span className="text-muted-foreground">{placeholder}</span>}
+        </Button>
+      </FormControl>
+    </PopoverTrigger>
+    <PopoverContent className="w-auto p-0" align="start">
+      <Calendar mode="single" selected={value} onSelect={onChange} defaultMonth={value} />
+    </PopoverContent>
+  </Popover>
+);
+
+interface MaintenanceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  maintenance?: Tables<"maintenance_windows">;
+  brands: BrandWithEndpoints[];
+  tagSuggestions: string[];
+}
+
+export const MaintenanceFormDialog = ({
+  open,
+  onOpenChange,
+  maintenance,
+  brands,
+  tagSuggestions,
+}: MaintenanceFormDialogProps) => {
+  const form = useForm<MaintenanceValues>({
+    resolver: zodResolver(maintenanceSchema),
+    defaultValues: toFormValues(maintenance),
+  });
+  const scope = form.watch("scope");
+  const recurrence = form.watch("recurrence");
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(maintenance));
+    }
+  }, [open, maintenance, form]);
+
+  const saveWindow = useMaintenanceMutation(async (values: MaintenanceValues) => {
+    const row = {
+      brand_id: values.scope === "brand" ? values.brand_id : null,
+      endpoint_id: values.scope === "endpoint" ? values.endpoint_id : null,
+      tag: values.scope === "tag" ? values.tag : null,
+      starts_at: withTime(values.start_date, values.start_time).toISOString(),
+      ends_at: withTime(values.end_date, values.end_time).toISOString(),
+      recurrence: values.recurrence,
+      repeat_until:
+        values.recurrence !== "none" && values.repeat_until ? endOfDay(values.repeat_until).toISOString() : null,
+      reason: values.reason || null,
+    };
+    const { error } = maintenance
+      ? await supabase.from("maintenance_windows").update(row).eq("id", maintenance.id)
+      : await supabase.from("maintenance_windows").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: MaintenanceValues) => {
+    saveWindow.mutate(values, {
+      onSuccess: () => {
+        toast.success("Maintenance window saved");
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{maintenance ? "Edit maintenance window" : "Add maintenance window"}</DialogTitle>
+          <DialogDescription>
+            Covered endpoints are still checked, but send no alerts, sound no alarm and are left out of uptime.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="scope"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies to</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="all">All endpoints</SelectItem>
+                      <SelectItem value="brand">One brand</SelectItem>
+                      <SelectItem value="tag">Endpoints with a tag</SelectItem>
+                      <SelectItem value="endpoint">One endpoint</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {scope === "brand" && (
+              <FormField
+                control={form.control}
+                name="brand_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brand</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pick a brand" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {brands.map(brand => (
+                          <SelectItem key={brand.id} value={brand.id}>
+                            {brand.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {scope === "tag" && (
+              <FormField
+                control={form.control}
+                name="tag"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tag</FormLabel>
+                    <FormControl>
+                      <Input placeholder="live-ip" list="maintenance-tag-suggestions" {...field} />
+                    </FormControl>
+                    <datalist id="maintenance-tag-suggestions">
+                      {tagSuggestions.map(tag => (
+                        <option key={tag} value={tag} />
+                      ))}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {scope === "endpoint" && (
+              <FormField
+                control={form.control}
+                name="endpoint_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endpoint</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pick an endpoint" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {brands.flatMap(brand =>
+                          brand.endpoints.map(endpoint => (
+                            <SelectItem key={endpoint.id} value={endpoint.id}>
+                              {brand.name} - {endpoint.role} ({endpoint.ip})
+                            </SelectItem>
+                          ))
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <div className="grid grid-cols-[1fr_7rem] gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <DatePickerField value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="start_time"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>At</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-[1fr_7rem] gap-4">
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <DatePickerField value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="end_time"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>At</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="recurrence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeats</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECURRENCES.map(value => (
+                          <SelectItem key={value} value={value}>
+                            {RECURRENCE_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {recurrence !== "none" && (
+                <FormField
+                  control={form.control}
+                  name="repeat_until"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Until</FormLabel>
+                      <DatePickerField value={field.value} onChange={field.onChange} placeholder="No end date" />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder="ISP fibre work" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveWindow.isPending}>
+                {saveWindow.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,196 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useNetworkGroupMutation, type NetworkGroup } from "@/hooks/use-network-groups";
+import { cidrSchema } from "@/lib/validation";
+
+const networkGroupSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  provider: z.string().trim(),
+  cidr: cidrSchema,
+  threshold_percent: z.coerce
+    .number()
+    .int("Must be a whole number")
+    .min(1, "Must be between 1 and 100%")
+    .max(100, "Must be between 1 and 100%"),
+  enabled: z.boolean(),
+});
+
+type NetworkGroupValues = z.infer<typeof networkGroupSchema>;
+
+const toFormValues = (group?: NetworkGroup): NetworkGroupValues =>
+  group
+    ? {
+        name: group.name,
+        provider: group.provider ?? "",
+        cidr: String(group.cidr),
+        threshold_percent: group.threshold_percent,
+        enabled: group.enabled,
+      }
+    : { name: "", provider: "", cidr: "", threshold_percent: 50, enabled: true };
+
+interface NetworkGroupFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group?: NetworkGroup;
+}
+
+export const NetworkGroupFormDialog = ({ open, onOpenChange, group }: NetworkGroupFormDialogProps) => {
+  const form = useForm<NetworkGroupValues>({
+    resolver: zodResolver(networkGroupSchema),
+    defaultValues: toFormValues(group),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(group));
+    }
+  }, [open, group, form]);
+
+  const saveGroup = useNetworkGroupMutation(async (values: NetworkGroupValues) => {
+    const row = {
+      name: values.name,
+      provider: values.provider || null,
+      cidr: values.cidr,
+      threshold_percent: values.threshold_percent,
+      enabled: values.enabled,
+    };
+    const { error } = group
+      ? await supabase.from("network_groups").update(row).eq("id", group.id)
+      : await supabase.from("network_groups").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: NetworkGroupValues) => {
+    saveGroup.mutate(values, {
+      onSuccess: () => {
+        toast.success(`${values.name} saved`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{group ? "Edit network" : "Add network"}</DialogTitle>
+          <DialogDescription>
+            Endpoints on the same upstream link. When enough of them close together, one ISP outage is raised instead
+            of an alert for each.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Live IPs" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="provider"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Provider</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Nayatel" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="cidr"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Network</FormLabel>
+                    <FormControl>
+                      <Input placeholder="202.59.94.0/24" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="threshold_percent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Outage at (% closed)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={100} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <div>
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>Closures on a disabled network are alerted about one by one.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveGroup.isPending}>
+                {saveGroup.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
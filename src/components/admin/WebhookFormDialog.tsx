@@ -0,0 +1,215 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useWebhookMutation } from "@/hooks/use-webhooks";
+import { generateWebhookSecret, WEBHOOK_EVENT_LABELS, WEBHOOK_EVENTS } from "@/lib/webhooks";
+
+const webhookSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  url: z
+    .string()
+    .trim()
+    .url("Enter a URL")
+    .refine(value => /^https?:\/\//.test(value), "Must be an http or https URL"),
+  secret: z.string().trim().min(16, "Use at least 16 characters"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Pick at least one event"),
+  enabled: z.boolean(),
+});
+
+type WebhookValues = z.infer<typeof webhookSchema>;
+
+const toFormValues = (webhook?: Tables<"webhooks">): WebhookValues =>
+  webhook
+    ? {
+        name: webhook.name,
+        url: webhook.url,
+        secret: webhook.secret,
+        events: webhook.events as WebhookValues["events"],
+        enabled: webhook.enabled,
+      }
+    : { name: "", url: "", secret: generateWebhookSecret(), events: [...WEBHOOK_EVENTS], enabled: true };
+
+interface WebhookFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  webhook?: Tables<"webhooks">;
+}
+
+export const WebhookFormDialog = ({ open, onOpenChange, webhook }: WebhookFormDialogProps) => {
+  const form = useForm<WebhookValues>({
+    resolver: zodResolver(webhookSchema),
+    defaultValues: toFormValues(webhook),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(webhook));
+    }
+  }, [open, webhook, form]);
+
+  const saveWebhook = useWebhookMutation(async (values: WebhookValues) => {
+    const row = {
+      name: values.name,
+      url: values.url,
+      secret: values.secret,
+      events: values.events,
+      enabled: values.enabled,
+    };
+    const { error } = webhook
+      ? await supabase.from("webhooks").update(row).eq("id", webhook.id)
+      : await supabase.from("webhooks").insert(row);
+    if (error) throw error;
+  });
+
+  const onSubmit = (values: WebhookValues) => {
+    saveWebhook.mutate(values, {
+      onSuccess: () => {
+        toast.success(`${values.name} saved`);
+        onOpenChange(false);
+      },
+      onError: error => toast.error(describeInventoryError(error)),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{webhook ? "Edit webhook" : "Add webhook"}</DialogTitle>
+          <DialogDescription>Receives a signed JSON POST for each incident event it subscribes to.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Helpdesk" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://helpdesk.example.com/hooks/port-monitor" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="secret"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Signing secret</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input className="font-mono text-xs" {...field} />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => form.setValue("secret", generateWebhookSecret(), { shouldDirty: true })}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      <span className="sr-only">Generate a new secret</span>
+                    </Button>
+                  </div>
+                  <FormDescription>
+                    Requests carry X-Port-Monitor-Signature: sha256=HMAC(secret, timestamp + "." + body).
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="events"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Events</FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {WEBHOOK_EVENTS.map(event => (
+                      <label key={event} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(event)}
+                          onCheckedChange={checked =>
+                            field.onChange(checked ? [...field.value, event] : field.value.filter(e => e !== event))
+                          }
+                        />
+                        {WEBHOOK_EVENT_LABELS[event]}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border p-3">
+                  <div>
+                    <FormLabel>Enabled</FormLabel>
+                    <FormDescription>Disabled webhooks queue nothing.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveWebhook.isPending}>
+                {saveWebhook.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useLatencySeries } from "@/hooks/use-reports";
+import type { ReportRange } from "@/lib/report-range";
+
+const chartConfig = {
+  min_ms: { label: "Min", color: "hsl(var(--success))" },
+  avg_ms: { label: "Avg", color: "hsl(var(--primary))" },
+  p95_ms: { label: "p95", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+// Ranges longer than two days label the axis with dates instead of times
+const TWO_DAYS_MS = 2 * 86400000;
+
+interface LatencyChartProps {
+  endpointId: string;
+  range: ReportRange;
+}
+
+export const LatencyChart = ({ endpointId, range }: LatencyChartProps) => {
+  const { data, isLoading, error } = useLatencySeries(endpointId, range);
+  const tickFormat = range.to.getTime() - range.from.getTime() > TWO_DAYS_MS ? "d MMM" : "HH:mm";
+
+  if (isLoading) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <Loader2 className="h-5 w-5 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="flex h-48 items-center justify-center text-sm text-destructive">{error.message}</p>;
+  }
+
+  if (data.length === 0) {
+    return (
+      <p className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+        No successful connects in this range
+      </p>
+    );
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+      <LineChart data={data} margin={{ left: 0, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="bucket_start"
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+          tickFormatter={value => format(new Date(value), tickFormat)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={48} unit=" ms" />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              indicator="line"
+              labelFormatter={(_, payload) => format(new Date(payload[0]?.payload.bucket_start), "d MMM HH:mm")}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="min_ms" type="monotone" stroke="var(--color-min_ms)" strokeWidth={1.5} dot={false} />
+        <Line dataKey="avg_ms" type="monotone" stroke="var(--color-avg_ms)" strokeWidth={2} dot={false} />
+        <Line dataKey="p95_ms" type="monotone" stroke="var(--color-p95_ms)" strokeWidth={1.5} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+};
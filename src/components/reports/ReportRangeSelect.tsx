@@ -0,0 +1,39 @@
+import type { DateRange } from "react-day-picker";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { REPORT_PRESET_LABELS, type ReportPreset } from "@/lib/report-range";
+
+interface ReportRangeSelectProps {
+  preset: ReportPreset;
+  onPresetChange: (preset: ReportPreset) => void;
+  custom?: DateRange;
+  onCustomChange?: (range: DateRange | undefined) => void;
+  presets?: ReportPreset[];
+}
+
+export const ReportRangeSelect = ({
+  preset,
+  onPresetChange,
+  custom,
+  onCustomChange,
+  presets = ["day", "week", "month", "custom"],
+}: ReportRangeSelectProps) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <ToggleGroup
+      type="single"
+      variant="outline"
+      size="sm"
+      value={preset}
+      onValueChange={value => value && onPresetChange(value as ReportPreset)}
+    >
+      {presets.map(p => (
+        <ToggleGroupItem key={p} value={p}>
+          {REPORT_PRESET_LABELS[p]}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+    {preset === "custom" && onCustomChange && (
+      <DateRangePicker value={custom} onChange={onCustomChange} placeholder="Pick dates" />
+    )}
+  </div>
+);
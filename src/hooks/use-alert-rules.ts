@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const ALERT_RULES_QUERY_KEY = ["alert-rules"];
+
+const fetchAlertRules = async () => {
+  const { data, error } = await supabase
+    .from("alert_rules")
+    .select("*, endpoints(role, ip, brands(name)), escalation_policies(name)")
+    .order("condition")
+    .order("duration_seconds");
+
+  if (error) throw error;
+  return data;
+};
+
+export type AlertRuleWithEndpoint = Awaited<ReturnType<typeof fetchAlertRules>>[number];
+
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ALERT_RULES_QUERY_KEY,
+    queryFn: fetchAlertRules,
+  });
+}
+
+// Wrap an alert rule write so the rule list refreshes afterwards.
+export function useAlertRuleMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ALERT_RULES_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const CONTACTS_QUERY_KEY = ["contacts"];
+
+const fetchContacts = async () => {
+  const { data, error } = await supabase
+    .from("contacts")
+    .select("*, contact_brands(brand_id, brands(name))")
+    .order("name");
+
+  if (error) throw error;
+  return data;
+};
+
+export type ContactWithBrands = Awaited<ReturnType<typeof fetchContacts>>[number];
+
+export function useContacts() {
+  return useQuery({
+    queryKey: CONTACTS_QUERY_KEY,
+    queryFn: fetchContacts,
+  });
+}
+
+// Wrap a contact write so the directory refreshes afterwards.
+export function useContactMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: CONTACTS_QUERY_KEY }),
+  });
+}
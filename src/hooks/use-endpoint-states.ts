@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type EndpointState = Tables<"endpoint_states">;
+
+export const ENDPOINT_STATES_QUERY_KEY = ["endpoint-states"];
+
+const fetchEndpointStates = async (): Promise<Record<string, EndpointState>> => {
+  const { data, error } = await supabase.from("endpoint_states").select("*");
+  if (error) throw error;
+
+  return Object.fromEntries(data.map(state => [state.endpoint_id, state]));
+};
+
+// Latest server-side monitor results, kept live through Supabase Realtime.
+// The slow refetch is only a fallback in case the socket drops.
+export function useEndpointStates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("endpoint-states")
+      .on<EndpointState>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "endpoint_states" },
+        payload => {
+          queryClient.setQueryData<Record<string, EndpointState>>(ENDPOINT_STATES_QUERY_KEY, prev => {
+            const next = { ...prev };
+            if (payload.eventType === "DELETE") {
+              delete next[payload.old.endpoint_id];
+            } else {
+              next[payload.new.endpoint_id] = payload.new;
+            }
+            return next;
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: ENDPOINT_STATES_QUERY_KEY,
+    queryFn: fetchEndpointStates,
+    refetchInterval: 60000,
+  });
+}
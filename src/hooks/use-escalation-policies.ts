@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ALERT_RULES_QUERY_KEY } from "@/hooks/use-alert-rules";
+
+export const ESCALATION_POLICIES_QUERY_KEY = ["escalation-policies"];
+
+const fetchEscalationPolicies = async () => {
+  const { data, error } = await supabase
+    .from("escalation_policies")
+    .select("*, escalation_steps(*)")
+    .order("name")
+    .order("delay_minutes", { referencedTable: "escalation_steps" });
+
+  if (error) throw error;
+  return data;
+};
+
+export type EscalationPolicyWithSteps = Awaited<ReturnType<typeof fetchEscalationPolicies>>[number];
+
+export function useEscalationPolicies() {
+  return useQuery({
+    queryKey: ESCALATION_POLICIES_QUERY_KEY,
+    queryFn: fetchEscalationPolicies,
+  });
+}
+
+// Wrap a policy or step write so the policies, and the rules naming them, refresh afterwards.
+export function useEscalationPolicyMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ESCALATION_POLICIES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ALERT_RULES_QUERY_KEY });
+    },
+  });
+}
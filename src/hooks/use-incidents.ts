@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface IncidentFilters {
+  brandId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export const INCIDENTS_QUERY_KEY = ["incidents"];
+
+// Most recent incidents first. A date range matches every incident that was
+// open at some point inside it, including ones that are still open.
+const fetchIncidents = async ({ brandId, from, to }: IncidentFilters) => {
+  let query = supabase
+    .from("incidents")
+    .select("*, endpoints!inner(role, ip, port, brand_id, brands(name)), incident_notifications(*, escalation_steps(delay_minutes)), incident_acknowledgers(email), outages(kind, title)")
+    .order("opened_at", { ascending: false })
+    .order("sent_at", { referencedTable: "incident_notifications" })
+    .limit(500);
+
+  if (brandId) query = query.eq("endpoints.brand_id", brandId);
+  if (to) query = query.lte("opened_at", to.toISOString());
+  if (from) query = query.or(`resolved_at.is.null,resolved_at.gte.${from.toISOString()}`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export type IncidentWithDetails = Awaited<ReturnType<typeof fetchIncidents>>[number];
+
+export function useIncidents(filters: IncidentFilters) {
+  return useQuery({
+    queryKey: [...INCIDENTS_QUERY_KEY, filters.brandId, filters.from?.toISOString(), filters.to?.toISOString()],
+    queryFn: () => fetchIncidents(filters),
+    refetchInterval: 30000,
+  });
+}
+
+export function useAcknowledgeIncident() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (incidentId: string) => {
+      const { error } = await supabase.rpc("acknowledge_incident", { incident_id: incidentId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INCIDENTS_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,115 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export interface MonitoredEndpoint {
+  id: string;
+  role: string;
+  ip: string;
+  port: number;
+  timeout_seconds: number;
+  interval_seconds: number;
+}
+
+export interface BrandConfig {
+  id: string;
+  name: string;
+  host: string;
+  default_port: number;
+  endpoints: MonitoredEndpoint[];
+}
+
+export type BrandWithEndpoints = Tables<"brands"> & { endpoints: Tables<"endpoints">[] };
+
+export const INVENTORY_QUERY_KEY = ["inventory"];
+
+// Load brands and their enabled endpoints from Supabase, in display order.
+const fetchInventory = async (): Promise<BrandConfig[]> => {
+  const { data, error } = await supabase
+    .from("brands")
+    .select(
+      "id, name, host, default_port, endpoints(id, role, ip, port, timeout_seconds, interval_seconds, enabled, position)"
+    )
+    .order("name")
+    .order("position", { referencedTable: "endpoints" });
+
+  if (error) throw error;
+
+  return data.map(brand => ({
+    id: brand.id,
+    name: brand.name,
+    host: brand.host,
+    default_port: brand.default_port,
+    endpoints: brand.endpoints
+      .filter(e => e.enabled)
+      .map(({ id, role, ip, port, timeout_seconds, interval_seconds }) => ({
+        id,
+        role,
+        ip,
+        port,
+        timeout_seconds,
+        interval_seconds,
+      })),
+  }));
+};
+
+// Distinct endpoint roles across all brands, used as the dashboard columns.
+export const listRoles = (brands: { endpoints: { role: string }[] }[]) => {
+  const roles: string[] = [];
+  for (const brand of brands) {
+    for (const endpoint of brand.endpoints) {
+      if (!roles.includes(endpoint.role)) roles.push(endpoint.role);
+    }
+  }
+  return roles;
+};
+
+// Distinct endpoint tags across all brands, for scoping alert rules.
+export const listTags = (brands: { endpoints: { tags: string[] }[] }[]) =>
+  [...new Set(brands.flatMap(brand => brand.endpoints.flatMap(endpoint => endpoint.tags)))].sort();
+
+export function useInventory() {
+  return useQuery({
+    queryKey: INVENTORY_QUERY_KEY,
+    queryFn: fetchInventory,
+  });
+}
+
+// Full rows, including disabled endpoints, for the admin screens.
+const fetchBrandsWithEndpoints = async (): Promise<BrandWithEndpoints[]> => {
+  const { data, error } = await supabase
+    .from("brands")
+    .select("*, endpoints(*)")
+    .order("name")
+    .order("position", { referencedTable: "endpoints" });
+
+  if (error) throw error;
+  return data;
+};
+
+export function useBrandsWithEndpoints() {
+  return useQuery({
+    queryKey: [...INVENTORY_QUERY_KEY, "admin"],
+    queryFn: fetchBrandsWithEndpoints,
+  });
+}
+
+// Wrap an inventory write so every view of the inventory refreshes afterwards.
+export function useInventoryMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INVENTORY_QUERY_KEY }),
+  });
+}
+
+export const describeInventoryError = (error: Error) => {
+  if ((error as Partial<PostgrestError>).code === "23505") {
+    return "That entry already exists";
+  }
+  if ((error as Partial<PostgrestError>).message?.includes("alert_rules_has_target")) {
+    return "An alert rule would be left with nobody to notify";
+  }
+  return error.message;
+};
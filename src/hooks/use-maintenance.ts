@@ -0,0 +1,48 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const MAINTENANCE_QUERY_KEY = ["maintenance"];
+
+const fetchMaintenanceWindows = async () => {
+  const { data, error } = await supabase
+    .from("maintenance_windows")
+    .select("*, brands(name), endpoints(role, ip, brands(name))")
+    .order("starts_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export type MaintenanceWindowWithScope = Awaited<ReturnType<typeof fetchMaintenanceWindows>>[number];
+
+export function useMaintenanceWindows() {
+  return useQuery({
+    queryKey: MAINTENANCE_QUERY_KEY,
+    queryFn: fetchMaintenanceWindows,
+  });
+}
+
+const fetchEndpointsInMaintenance = async () => {
+  const { data, error } = await supabase.rpc("endpoints_in_maintenance");
+  if (error) throw error;
+  return new Set(data);
+};
+
+// Endpoints inside a maintenance window right now. Windows open and close on
+// the clock rather than on any change, so this is polled.
+export function useEndpointsInMaintenance() {
+  return useQuery({
+    queryKey: [...MAINTENANCE_QUERY_KEY, "active"],
+    queryFn: fetchEndpointsInMaintenance,
+    refetchInterval: 60000,
+  });
+}
+
+// Wrap a maintenance window write so the list and the dashboard refresh afterwards.
+export function useMaintenanceMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: MAINTENANCE_QUERY_KEY }),
+  });
+}
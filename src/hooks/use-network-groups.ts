@@ -0,0 +1,29 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type NetworkGroup = Tables<"network_groups">;
+
+export const NETWORK_GROUPS_QUERY_KEY = ["network-groups"];
+
+const fetchNetworkGroups = async () => {
+  const { data, error } = await supabase.from("network_groups").select("*").order("name");
+  if (error) throw error;
+  return data;
+};
+
+export function useNetworkGroups() {
+  return useQuery({
+    queryKey: NETWORK_GROUPS_QUERY_KEY,
+    queryFn: fetchNetworkGroups,
+  });
+}
+
+// Wrap a network group write so the list refreshes afterwards.
+export function useNetworkGroupMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: NETWORK_GROUPS_QUERY_KEY }),
+  });
+}
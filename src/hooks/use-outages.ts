@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const OPEN_OUTAGES_QUERY_KEY = ["outages", "open"];
+
+// Outages still in progress, with the endpoints whose incidents the monitor
+// linked to them and, for signed-in users, who acknowledged them
+const fetchOpenOutages = async () => {
+  const { data, error } = await supabase
+    .from("outages")
+    .select("*, incidents(endpoint_id), outage_acknowledgers(email)")
+    .is("resolved_at", null)
+    .order("opened_at");
+  if (error) throw error;
+  return data;
+};
+
+export type OpenOutage = Awaited<ReturnType<typeof fetchOpenOutages>>[number];
+
+// Open ISP and site outages. Realtime changes trigger a refetch rather than a
+// patch because the linked incidents are not part of the payload.
+export function useOpenOutages() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("outages")
+      .on("postgres_changes", { event: "*", schema: "public", table: "outages" }, () => {
+        queryClient.invalidateQueries({ queryKey: OPEN_OUTAGES_QUERY_KEY });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: OPEN_OUTAGES_QUERY_KEY,
+    queryFn: fetchOpenOutages,
+    refetchInterval: 60000,
+  });
+}
+
+export function useAcknowledgeOutage() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (outageId: string) => {
+      const { error } = await supabase.rpc("acknowledge_outage", { outage_id: outageId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: OPEN_OUTAGES_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { bucketSecondsFor, type ReportRange } from "@/lib/report-range";
+
+export type EndpointUptime = Database["public"]["Functions"]["endpoint_uptime"]["Returns"][number];
+export type LatencyBucket = Database["public"]["Functions"]["endpoint_latency"]["Returns"][number];
+
+export const REPORTS_QUERY_KEY = ["reports"];
+
+const rangeKey = (range: ReportRange | undefined) => [range?.from.toISOString(), range?.to.toISOString()];
+
+// Availability per endpoint over the range, keyed by endpoint id.
+export function useUptimeReport(range: ReportRange | undefined) {
+  return useQuery({
+    queryKey: [...REPORTS_QUERY_KEY, "uptime", ...rangeKey(range)],
+    queryFn: async (): Promise<Record<string, EndpointUptime>> => {
+      const { data, error } = await supabase.rpc("endpoint_uptime", {
+        range_start: range.from.toISOString(),
+        range_end: range.to.toISOString(),
+      });
+      if (error) throw error;
+      return Object.fromEntries(data.map(row => [row.endpoint_id, row]));
+    },
+    enabled: !!range,
+  });
+}
+
+// Connect-time buckets for one endpoint over the range.
+export function useLatencySeries(endpointId: string, range: ReportRange | undefined) {
+  return useQuery({
+    queryKey: [...REPORTS_QUERY_KEY, "latency", endpointId, ...rangeKey(range)],
+    queryFn: async (): Promise<LatencyBucket[]> => {
+      const { data, error } = await supabase.rpc("endpoint_latency", {
+        target_endpoint_id: endpointId,
+        range_start: range.from.toISOString(),
+        range_end: range.to.toISOString(),
+        bucket_seconds: bucketSecondsFor(range),
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!range,
+  });
+}
+
+// Availability per bucket for every endpoint, keyed by endpoint id. Each array
+// has one entry per bucket from the start of the range, null without data.
+export function useAvailabilityGrid(range: ReportRange | undefined, bucketSeconds: number) {
+  return useQuery({
+    queryKey: [...REPORTS_QUERY_KEY, "availability-grid", bucketSeconds, ...rangeKey(range)],
+    queryFn: async (): Promise<Record<string, (number | null)[]>> => {
+      const { data, error } = await supabase.rpc("availability_grid", {
+        range_start: range.from.toISOString(),
+        range_end: range.to.toISOString(),
+        bucket_seconds: bucketSeconds,
+      });
+      if (error) throw error;
+      return Object.fromEntries(data.map(row => [row.endpoint_id, row.availability]));
+    },
+    enabled: !!range,
+  });
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const WEBHOOKS_QUERY_KEY = ["webhooks"];
+
+// Each webhook with its latest delivery, to show whether it is working
+const fetchWebhooks = async () => {
+  const { data, error } = await supabase
+    .from("webhooks")
+    .select("*, webhook_deliveries(event, status, attempts, last_status, last_error, last_attempt_at, created_at)")
+    .order("name")
+    .order("created_at", { referencedTable: "webhook_deliveries", ascending: false })
+    .limit(1, { referencedTable: "webhook_deliveries" });
+
+  if (error) throw error;
+  return data;
+};
+
+export type WebhookWithLastDelivery = Awaited<ReturnType<typeof fetchWebhooks>>[number];
+
+export function useWebhooks() {
+  return useQuery({
+    queryKey: WEBHOOKS_QUERY_KEY,
+    queryFn: fetchWebhooks,
+    refetchInterval: 30000,
+  });
+}
+
+// Wrap a webhook write so the list refreshes afterwards.
+export function useWebhookMutation<TVariables>(mutationFn: (variables: TVariables) => Promise<void>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: WEBHOOKS_QUERY_KEY }),
+  });
+}
@@ -14,13 +14,1057 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      alert_dispatches: {
+        Row: {
+          attempts: number
+          channel: string
+          claimed_at: string
+          created_at: string
+          key: string
+          last_error: string | null
+          message_id: string | null
+          recipients: string[]
+          sent_at: string | null
+          status: string
+          subject: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          claimed_at?: string
+          created_at?: string
+          key: string
+          last_error?: string | null
+          message_id?: string | null
+          recipients?: string[]
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          claimed_at?: string
+          created_at?: string
+          key?: string
+          last_error?: string | null
+          message_id?: string | null
+          recipients?: string[]
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+        }
+        Relationships: []
+      }
+      alert_firings: {
+        Row: {
+          channel: string
+          condition_since: string
+          endpoint_id: string | null
+          fired_at: string
+          id: string
+          outage_id: string | null
+          round: number
+          rule_id: string
+          step_id: string | null
+        }
+        Insert: {
+          channel: string
+          condition_since: string
+          endpoint_id?: string | null
+          fired_at?: string
+          id?: string
+          outage_id?: string | null
+          round?: number
+          rule_id: string
+          step_id?: string | null
+        }
+        Update: {
+          channel?: string
+          condition_since?: string
+          endpoint_id?: string | null
+          fired_at?: string
+          id?: string
+          outage_id?: string | null
+          round?: number
+          rule_id?: string
+          step_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_firings_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_firings_outage_id_fkey"
+            columns: ["outage_id"]
+            isOneToOne: false
+            referencedRelation: "outages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_firings_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_firings_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          channels: string[]
+          condition: string
+          created_at: string
+          duration_seconds: number
+          enabled: boolean
+          endpoint_id: string | null
+          escalation_policy_id: string | null
+          id: string
+          name: string
+          severity: string
+          tag: string | null
+          updated_at: string
+        }
+        Insert: {
+          channels: string[]
+          condition: string
+          created_at?: string
+          duration_seconds?: number
+          enabled?: boolean
+          endpoint_id?: string | null
+          escalation_policy_id?: string | null
+          id?: string
+          name: string
+          severity?: string
+          tag?: string | null
+          updated_at?: string
+        }
+        Update: {
+          channels?: string[]
+          condition?: string
+          created_at?: string
+          duration_seconds?: number
+          enabled?: boolean
+          endpoint_id?: string | null
+          escalation_policy_id?: string | null
+          id?: string
+          name?: string
+          severity?: string
+          tag?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_rules_escalation_policy_id_fkey"
+            columns: ["escalation_policy_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brands: {
+        Row: {
+          created_at: string
+          default_port: number
+          host: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_port?: number
+          host: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_port?: number
+          host?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      contact_brands: {
+        Row: {
+          brand_id: string
+          contact_id: string
+        }
+        Insert: {
+          brand_id: string
+          contact_id: string
+        }
+        Update: {
+          brand_id?: string
+          contact_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_brands_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_brands_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contacts: {
+        Row: {
+          channels: string[]
+          created_at: string
+          email: string | null
+          enabled: boolean
+          id: string
+          name: string
+          phone: string | null
+          tags: string[]
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          channels?: string[]
+          created_at?: string
+          email?: string | null
+          enabled?: boolean
+          id?: string
+          name: string
+          phone?: string | null
+          tags?: string[]
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          channels?: string[]
+          created_at?: string
+          email?: string | null
+          enabled?: boolean
+          id?: string
+          name?: string
+          phone?: string | null
+          tags?: string[]
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      endpoint_states: {
+        Row: {
+          closed_since: string | null
+          consecutive_failures: number
+          consecutive_successes: number
+          degraded_since: string | null
+          endpoint_id: string
+          error_since: string | null
+          failing_since: string | null
+          flapping_since: string | null
+          incident_id: string | null
+          last_checked_at: string | null
+          message: string | null
+          opened_at: string | null
+          reason: string | null
+          status: string
+          time_ms: number | null
+          transitions: string[]
+          updated_at: string
+        }
+        Insert: {
+          closed_since?: string | null
+          consecutive_failures?: number
+          consecutive_successes?: number
+          degraded_since?: string | null
+          endpoint_id: string
+          error_since?: string | null
+          failing_since?: string | null
+          flapping_since?: string | null
+          incident_id?: string | null
+          last_checked_at?: string | null
+          message?: string | null
+          opened_at?: string | null
+          reason?: string | null
+          status?: string
+          time_ms?: number | null
+          transitions?: string[]
+          updated_at?: string
+        }
+        Update: {
+          closed_since?: string | null
+          consecutive_failures?: number
+          consecutive_successes?: number
+          degraded_since?: string | null
+          endpoint_id?: string
+          error_since?: string | null
+          failing_since?: string | null
+          flapping_since?: string | null
+          incident_id?: string | null
+          last_checked_at?: string | null
+          message?: string | null
+          opened_at?: string | null
+          reason?: string | null
+          status?: string
+          time_ms?: number | null
+          transitions?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "endpoint_states_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: true
+            referencedRelation: "endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "endpoint_states_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      endpoints: {
+        Row: {
+          brand_id: string
+          created_at: string
+          degraded_ms: number | null
+          enabled: boolean
+          fail_threshold: number
+          flap_threshold: number
+          flap_window_seconds: number
+          id: string
+          interval_seconds: number
+          ip: string
+          port: number
+          position: number
+          recover_threshold: number
+          role: string
+          tags: string[]
+          timeout_seconds: number
+          updated_at: string
+        }
+        Insert: {
+          brand_id: string
+          created_at?: string
+          degraded_ms?: number | null
+          enabled?: boolean
+          fail_threshold?: number
+          flap_threshold?: number
+          flap_window_seconds?: number
+          id?: string
+          interval_seconds?: number
+          ip: string
+          port?: number
+          position?: number
+          recover_threshold?: number
+          role: string
+          tags?: string[]
+          timeout_seconds?: number
+          updated_at?: string
+        }
+        Update: {
+          brand_id?: string
+          created_at?: string
+          degraded_ms?: number | null
+          enabled?: boolean
+          fail_threshold?: number
+          flap_threshold?: number
+          flap_window_seconds?: number
+          id?: string
+          interval_seconds?: number
+          ip?: string
+          port?: number
+          position?: number
+          recover_threshold?: number
+          role?: string
+          tags?: string[]
+          timeout_seconds?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "endpoints_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escalation_policies: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          repeat_every_minutes: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          repeat_every_minutes?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          repeat_every_minutes?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      escalation_steps: {
+        Row: {
+          channel: string
+          created_at: string
+          delay_minutes: number
+          id: string
+          policy_id: string
+          recipient: string
+          updated_at: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          delay_minutes: number
+          id?: string
+          policy_id: string
+          recipient: string
+          updated_at?: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          delay_minutes?: number
+          id?: string
+          policy_id?: string
+          recipient?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_steps_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_acknowledgers: {
+        Row: {
+          email: string
+          incident_id: string
+        }
+        Insert: {
+          email: string
+          incident_id: string
+        }
+        Update: {
+          email?: string
+          incident_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_acknowledgers_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: true
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_notifications: {
+        Row: {
+          channel: string
+          id: string
+          incident_id: string
+          kind: string
+          message_id: string | null
+          recipient: string | null
+          round: number | null
+          rule_id: string | null
+          sent_at: string
+          step_id: string | null
+          subject: string | null
+        }
+        Insert: {
+          channel: string
+          id?: string
+          incident_id: string
+          kind: string
+          message_id?: string | null
+          recipient?: string | null
+          round?: number | null
+          rule_id?: string | null
+          sent_at?: string
+          step_id?: string | null
+          subject?: string | null
+        }
+        Update: {
+          channel?: string
+          id?: string
+          incident_id?: string
+          kind?: string
+          message_id?: string | null
+          recipient?: string | null
+          round?: number | null
+          rule_id?: string | null
+          sent_at?: string
+          step_id?: string | null
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_notifications_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_notifications_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_notifications_step_id_fkey"
+            columns: ["step_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_steps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incidents: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+          duration_seconds: number | null
+          endpoint_id: string
+          id: string
+          opened_at: string
+          outage_id: string | null
+          resolved_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          endpoint_id: string
+          id?: string
+          opened_at: string
+          outage_id?: string | null
+          resolved_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          endpoint_id?: string
+          id?: string
+          opened_at?: string
+          outage_id?: string | null
+          resolved_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incidents_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incidents_outage_id_fkey"
+            columns: ["outage_id"]
+            isOneToOne: false
+            referencedRelation: "outages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_windows: {
+        Row: {
+          brand_id: string | null
+          created_at: string
+          endpoint_id: string | null
+          ends_at: string
+          id: string
+          reason: string | null
+          recurrence: string
+          repeat_until: string | null
+          starts_at: string
+          tag: string | null
+          updated_at: string
+        }
+        Insert: {
+          brand_id?: string | null
+          created_at?: string
+          endpoint_id?: string | null
+          ends_at: string
+          id?: string
+          reason?: string | null
+          recurrence?: string
+          repeat_until?: string | null
+          starts_at: string
+          tag?: string | null
+          updated_at?: string
+        }
+        Update: {
+          brand_id?: string | null
+          created_at?: string
+          endpoint_id?: string | null
+          ends_at?: string
+          id?: string
+          reason?: string | null
+          recurrence?: string
+          repeat_until?: string | null
+          starts_at?: string
+          tag?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_windows_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_windows_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      network_groups: {
+        Row: {
+          cidr: unknown
+          created_at: string
+          enabled: boolean
+          id: string
+          name: string
+          provider: string | null
+          threshold_percent: number
+          updated_at: string
+        }
+        Insert: {
+          cidr: unknown
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          provider?: string | null
+          threshold_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          cidr?: unknown
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          provider?: string | null
+          threshold_percent?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      outage_acknowledgers: {
+        Row: {
+          email: string
+          outage_id: string
+        }
+        Insert: {
+          email: string
+          outage_id: string
+        }
+        Update: {
+          email?: string
+          outage_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outage_acknowledgers_outage_id_fkey"
+            columns: ["outage_id"]
+            isOneToOne: true
+            referencedRelation: "outages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outages: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alerted_at: string | null
+          brand_id: string | null
+          created_at: string
+          duration_seconds: number | null
+          endpoint_count: number
+          id: string
+          kind: string
+          network_group_id: string | null
+          opened_at: string
+          peak_down: number
+          recovery_sent_at: string | null
+          resolved_at: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alerted_at?: string | null
+          brand_id?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          endpoint_count?: number
+          id?: string
+          kind: string
+          network_group_id?: string | null
+          opened_at?: string
+          peak_down?: number
+          recovery_sent_at?: string | null
+          resolved_at?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          alerted_at?: string | null
+          brand_id?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          endpoint_count?: number
+          id?: string
+          kind?: string
+          network_group_id?: string | null
+          opened_at?: string
+          peak_down?: number
+          recovery_sent_at?: string | null
+          resolved_at?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outages_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outages_network_group_id_fkey"
+            columns: ["network_group_id"]
+            isOneToOne: false
+            referencedRelation: "network_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      port_checks: {
+        Row: {
+          checked_at: string
+          endpoint_id: string
+          id: number
+          message: string | null
+          reason: string | null
+          source: string
+          status: string
+          time_ms: number | null
+        }
+        Insert: {
+          checked_at?: string
+          endpoint_id: string
+          id?: number
+          message?: string | null
+          reason?: string | null
+          source?: string
+          status: string
+          time_ms?: number | null
+        }
+        Update: {
+          checked_at?: string
+          endpoint_id?: string
+          id?: number
+          message?: string | null
+          reason?: string | null
+          source?: string
+          status?: string
+          time_ms?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "port_checks_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "endpoints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          event: string
+          id: string
+          incident_id: string | null
+          last_attempt_at: string | null
+          last_error: string | null
+          last_status: number | null
+          next_attempt_at: string
+          payload: Json
+          status: string
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          event: string
+          id?: string
+          incident_id?: string | null
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_status?: number | null
+          next_attempt_at?: string
+          payload: Json
+          status?: string
+          webhook_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          event?: string
+          id?: string
+          incident_id?: string | null
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_status?: number | null
+          next_attempt_at?: string
+          payload?: Json
+          status?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          events: string[]
+          id: string
+          name: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          name: string
+          secret: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          name?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      acknowledge_incident: {
+        Args: { incident_id: string }
+        Returns: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+          duration_seconds: number | null
+          endpoint_id: string
+          id: string
+          opened_at: string
+          resolved_at: string | null
+          updated_at: string
+        }
+      }
+      acknowledge_outage: {
+        Args: { outage_id: string }
+        Returns: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          alerted_at: string | null
+          brand_id: string | null
+          created_at: string
+          duration_seconds: number | null
+          endpoint_count: number
+          id: string
+          kind: string
+          network_group_id: string | null
+          opened_at: string
+          peak_down: number
+          recovery_sent_at: string | null
+          resolved_at: string | null
+          title: string
+          updated_at: string
+        }
+      }
+      availability_grid: {
+        Args: { bucket_seconds: number; range_end: string; range_start: string }
+        Returns: {
+          availability: number[]
+          endpoint_id: string
+        }[]
+      }
+      claim_alert_dispatch: {
+        Args: { dispatch_channel: string; dispatch_key: string }
+        Returns: boolean
+      }
+      claim_webhook_deliveries: {
+        Args: { max_deliveries: number }
+        Returns: {
+          attempts: number
+          event: string
+          id: string
+          payload: Json
+          secret: string
+          url: string
+        }[]
+      }
+      endpoint_latency: {
+        Args: {
+          bucket_seconds: number
+          range_end: string
+          range_start: string
+          target_endpoint_id: string
+        }
+        Returns: {
+          avg_ms: number
+          bucket_start: string
+          checks: number
+          min_ms: number
+          p95_ms: number
+        }[]
+      }
+      endpoint_uptime: {
+        Args: { range_end: string; range_start: string }
+        Returns: {
+          availability: number | null
+          downtime_seconds: number
+          endpoint_id: string
+          longest_outage_seconds: number
+          monitored_seconds: number
+          outages: number
+        }[]
+      }
+      endpoints_in_maintenance: {
+        Args: { at?: string }
+        Returns: string[]
+      }
+      enqueue_incident_webhooks: {
+        Args: { details?: Json; event: string; target_incident_id: string }
+        Returns: undefined
+      }
+      incident_opened_in_maintenance: {
+        Args: { target_incident_id: string }
+        Returns: boolean
+      }
+      incident_webhook_payload: {
+        Args: { details: Json; event: string; target_incident_id: string }
+        Returns: Json
+      }
+      is_under_maintenance: {
+        Args: { at: string; target_endpoint_id: string }
+        Returns: boolean
+      }
+      maintenance_ranges: {
+        Args: { range_end: string; range_start: string }
+        Returns: {
+          endpoint_id: string
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      maintenance_window_covers: {
+        Args: {
+          at: string
+          m: Database["public"]["Tables"]["maintenance_windows"]["Row"]
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,41 @@
+export const ALERT_CONDITIONS = ["closed", "degraded", "flapping", "error", "outage"] as const;
+export const ALERT_SEVERITIES = ["info", "warning", "critical"] as const;
+export const ALERT_CHANNELS = ["email", "whatsapp"] as const;
+
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export const CONDITION_LABELS: Record<AlertCondition, string> = {
+  closed: "Closed",
+  degraded: "Degraded",
+  flapping: "Flapping",
+  error: "Unknown",
+  outage: "ISP outage / site down",
+};
+
+// Conditions that can be acknowledged, a closure through its incident and an
+// outage on the dashboard, which stops escalation. Rules on any other
+// condition cannot have an escalation policy.
+export const ESCALATING_CONDITIONS: readonly AlertCondition[] = ["closed", "outage"];
+
+export const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: "Info",
+  warning: "Warning",
+  critical: "Critical",
+};
+
+export const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  email: "Email",
+  whatsapp: "WhatsApp",
+};
+
+// Tags are typed as a comma-separated list and stored lower-case, dash-joined
+export const parseTags = (input: string) => [
+  ...new Set(
+    input
+      .split(",")
+      .map(tag => tag.trim().toLowerCase().replace(/\s+/g, "-"))
+      .filter(Boolean)
+  ),
+];
@@ -0,0 +1,37 @@
+import type { PortStatus } from "@/lib/port-status";
+
+// How a brand is doing as a whole, the same way the monitor works it out in
+// supabase/functions/monitor/health.ts; keep the two in step. A brand with one
+// link closed and another still open keeps trading on the backup path: worth
+// fixing soon, but not the emergency of every link closed.
+export type BrandHealth = "healthy" | "failover" | "down";
+
+const isUp = (status: PortStatus) => status === "open" || status === "degraded";
+
+// Undefined while none of the brand's endpoints has a definite result.
+// Endpoints under maintenance are left out, as the monitor leaves them out.
+export const brandHealth = (statuses: PortStatus[]): BrandHealth | undefined => {
+  const counted = statuses.filter(status => status !== "maintenance");
+  const closed = counted.filter(status => status === "closed").length;
+  const up = counted.filter(isUp).length;
+  if (closed === 0) return up > 0 ? "healthy" : undefined;
+  return up > 0 ? "failover" : "down";
+};
+
+export const BRAND_HEALTH_LABELS: Record<BrandHealth, string> = {
+  healthy: "HEALTHY",
+  failover: "ON BACKUP",
+  down: "DOWN",
+};
+
+export const BRAND_HEALTH_TEXT_CLASS: Record<BrandHealth, string> = {
+  healthy: "text-success",
+  failover: "text-warning",
+  down: "text-destructive",
+};
+
+export const BRAND_HEALTH_ROW_CLASS: Record<BrandHealth, string> = {
+  healthy: "",
+  failover: "bg-warning/5",
+  down: "bg-destructive/10",
+};
@@ -0,0 +1,14 @@
+// Human-readable length of an outage, e.g. "2h 5m" or "45s".
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${total % 60}s`;
+  return `${total}s`;
+};
+
+export const formatTimestamp = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : undefined);
@@ -0,0 +1,71 @@
+import { addDays, addMonths, differenceInCalendarMonths, format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+export const RECURRENCES = ["none", "daily", "weekly", "monthly"] as const;
+
+export type Recurrence = (typeof RECURRENCES)[number];
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: "Once",
+  daily: "Every day",
+  weekly: "Every week",
+  monthly: "Every month",
+};
+
+// Longest a window may last for its occurrences not to overlap, as the
+// database checks it
+export const MAX_RECURRING_MS: Record<Exclude<Recurrence, "none">, number> = {
+  daily: 86400000,
+  weekly: 7 * 86400000,
+  monthly: 28 * 86400000,
+};
+
+type MaintenanceWindow = Pick<Tables<"maintenance_windows">, "starts_at" | "ends_at" | "recurrence" | "repeat_until">;
+
+// Start of the window's latest occurrence at or before the given time, the
+// same way maintenance_window_covers works it out
+const occurrenceStart = (maintenance: MaintenanceWindow, at: Date) => {
+  const start = new Date(maintenance.starts_at);
+  switch (maintenance.recurrence as Recurrence) {
+    case "daily":
+      return addDays(start, Math.floor((at.getTime() - start.getTime()) / 86400000));
+    case "weekly":
+      return addDays(start, 7 * Math.floor((at.getTime() - start.getTime()) / (7 * 86400000)));
+    case "monthly": {
+      const months = differenceInCalendarMonths(at, start);
+      return addMonths(start, addMonths(start, months) > at ? months - 1 : months);
+    }
+    default:
+      return start;
+  }
+};
+
+// Whether the window, or one of its occurrences, is in progress
+export const isMaintenanceActive = (maintenance: MaintenanceWindow, at = new Date()) => {
+  const start = new Date(maintenance.starts_at);
+  if (at < start) return false;
+  const occurrence = occurrenceStart(maintenance, at);
+  const length = new Date(maintenance.ends_at).getTime() - start.getTime();
+  if (maintenance.repeat_until && occurrence > new Date(maintenance.repeat_until)) return false;
+  return at.getTime() < occurrence.getTime() + length;
+};
+
+// Whether the window will never cover anything again
+export const isMaintenanceOver = (maintenance: MaintenanceWindow, at = new Date()) => {
+  if (maintenance.recurrence === "none") return new Date(maintenance.ends_at) <= at;
+  return !!maintenance.repeat_until && new Date(maintenance.repeat_until) < at && !isMaintenanceActive(maintenance, at);
+};
+
+// "Sun 2 Nov 2026 02:00 – 06:00, every week until 30 Nov 2026"
+export const describeSchedule = (maintenance: MaintenanceWindow) => {
+  const start = new Date(maintenance.starts_at);
+  const end = new Date(maintenance.ends_at);
+  const sameDay = format(start, "yyyy-MM-dd") === format(end, "yyyy-MM-dd");
+  const ends = format(end, sameDay ? "HH:mm" : "EEE d MMM yyyy HH:mm");
+  const times = `${format(start, "EEE d MMM yyyy HH:mm")} – ${ends}`;
+  if (maintenance.recurrence === "none") return times;
+
+  const repeats = RECURRENCE_LABELS[maintenance.recurrence as Recurrence].toLowerCase();
+  const until = maintenance.repeat_until ? ` until ${format(new Date(maintenance.repeat_until), "d MMM yyyy")}` : "";
+  return `${times}, ${repeats}${until}`;
+};
@@ -0,0 +1,38 @@
+// "maintenance" is shown by the dashboard over whatever the monitor reports
+// while an endpoint is inside a maintenance window
+export type PortStatus = "checking" | "open" | "degraded" | "closed" | "error" | "flapping" | "maintenance" | "idle";
+
+// Why a probe came back the way it did, as reported by check-port / monitor,
+// plus the reasons the dashboard itself can detect.
+export const REASON_LABELS: Record<string, string> = {
+  connected: "Connected",
+  timeout: "Connection timed out",
+  refused: "Connection refused",
+  dns: "DNS lookup failed",
+  function_error: "Check function failed",
+  stale: "Monitor has stopped reporting",
+  offline: "Cannot reach the monitor",
+  maintenance: "Inside a maintenance window",
+};
+
+export const STATUS_TEXT_CLASS: Record<PortStatus, string> = {
+  open: "text-success",
+  degraded: "text-warning",
+  closed: "text-destructive",
+  error: "text-orange-400",
+  flapping: "text-purple-400",
+  maintenance: "text-sky-400",
+  checking: "text-muted-foreground",
+  idle: "text-muted-foreground",
+};
+
+export const STATUS_LABELS: Record<PortStatus, string> = {
+  open: "OPEN",
+  degraded: "DEGRADED",
+  closed: "CLOSED",
+  error: "UNKNOWN",
+  flapping: "FLAPPING",
+  maintenance: "MAINTENANCE",
+  checking: "CHECKING",
+  idle: "-",
+};
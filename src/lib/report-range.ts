@@ -0,0 +1,42 @@
+import { endOfDay, startOfDay, subDays, subHours } from "date-fns";
+import type { DateRange } from "react-day-picker";
+
+export type ReportPreset = "day" | "week" | "month" | "custom";
+
+export const REPORT_PRESET_LABELS: Record<ReportPreset, string> = {
+  day: "24 hours",
+  week: "7 days",
+  month: "30 days",
+  custom: "Custom",
+};
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+// Turn a preset, or a custom calendar selection, into a concrete time range.
+// Presets end at the given time; custom ranges cover whole days.
+export const resolveReportRange = (preset: ReportPreset, custom: DateRange | undefined, now: Date): ReportRange | undefined => {
+  switch (preset) {
+    case "day":
+      return { from: subHours(now, 24), to: now };
+    case "week":
+      return { from: subDays(now, 7), to: now };
+    case "month":
+      return { from: subDays(now, 30), to: now };
+    case "custom":
+      return custom?.from
+        ? { from: startOfDay(custom.from), to: endOfDay(custom.to ?? custom.from) }
+        : undefined;
+  }
+};
+
+// Roughly this many points per chart, whatever the range
+const TARGET_BUCKETS = 120;
+
+// Bucket size for time-series over the range, rounded up to whole minutes.
+export const bucketSecondsFor = ({ from, to }: ReportRange) => {
+  const seconds = (to.getTime() - from.getTime()) / 1000 / TARGET_BUCKETS;
+  return Math.max(60, Math.ceil(seconds / 60) * 60);
+};
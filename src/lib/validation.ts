@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+const IPV4_OCTET = "(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4_PATTERN = new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}$`);
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+export const ipv4Schema = z.string().trim().regex(IPV4_PATTERN, "Enter a valid IPv4 address");
+
+export const hostnameSchema = z.string().trim().regex(HOSTNAME_PATTERN, "Enter a valid hostname");
+
+export const portSchema = z.coerce
+  .number({ invalid_type_error: "Port must be a number" })
+  .int("Port must be a whole number")
+  .min(1, "Port must be between 1 and 65535")
+  .max(65535, "Port must be between 1 and 65535");
+
+// WhatsApp numbers are stored the way the Graph API takes them: country code
+// and number, digits only
+const WHATSAPP_NUMBER_PATTERN = /^\d{8,15}$/;
+
+export const normalizePhoneNumber = (input: string) => input.replace(/[\s()+-]/g, "");
+
+export const isWhatsAppNumber = (input: string) => WHATSAPP_NUMBER_PATTERN.test(normalizePhoneNumber(input));
+
+const ipv4ToNumber = (ip: string) => ip.split(".").reduce((address, octet) => address * 256 + Number(octet), 0);
+
+// Whether an IPv4 address lies inside a network such as "202.59.94.0/24"
+export const ipInCidr = (ip: string, cidr: string) => {
+  const [network, bits = "32"] = cidr.split("/");
+  if (!IPV4_PATTERN.test(ip.trim()) || !IPV4_PATTERN.test(network)) return false;
+  const size = 2 ** (32 - Number(bits));
+  return Math.floor(ipv4ToNumber(ip.trim()) / size) === Math.floor(ipv4ToNumber(network) / size);
+};
+
+// An IPv4 network with its prefix length. The address must be the network's
+// first one, as Postgres' cidr type requires.
+export const cidrSchema = z
+  .string()
+  .trim()
+  .regex(new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}/(3[0-2]|[12]?\\d)$`), "Enter a network such as 202.59.94.0/24")
+  .refine(value => {
+    const [network, bits] = value.split("/");
+    return ipv4ToNumber(network) % 2 ** (32 - Number(bits)) === 0;
+  }, "The address has bits set past the prefix, e.g. use 202.59.94.0/24");
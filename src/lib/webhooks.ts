@@ -0,0 +1,19 @@
+export const WEBHOOK_EVENTS = [
+  "incident.opened",
+  "incident.escalated",
+  "incident.acknowledged",
+  "incident.resolved",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "incident.opened": "Opened",
+  "incident.escalated": "Escalated",
+  "incident.acknowledged": "Acknowledged",
+  "incident.resolved": "Resolved",
+};
+
+// 32 random bytes as hex, for signing a new webhook's requests
+export const generateWebhookSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, "0")).join("");
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, Pencil, Plus, Settings, Siren, Trash2, Webhook } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { AlertRuleFormDialog } from "@/components/admin/AlertRuleFormDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError, listTags, useBrandsWithEndpoints } from "@/hooks/use-inventory";
+import { useAlertRuleMutation, useAlertRules, type AlertRuleWithEndpoint } from "@/hooks/use-alert-rules";
+import { useEscalationPolicies } from "@/hooks/use-escalation-policies";
+import { formatDuration } from "@/lib/format";
+import {
+  CHANNEL_LABELS,
+  CONDITION_LABELS,
+  SEVERITY_LABELS,
+  type AlertChannel,
+  type AlertCondition,
+  type AlertSeverity,
+} from "@/lib/alert-rules";
+
+const SEVERITY_VARIANTS: Record<AlertSeverity, "destructive" | "secondary" | "outline"> = {
+  critical: "destructive",
+  warning: "secondary",
+  info: "outline",
+};
+
+const describeScope = (rule: AlertRuleWithEndpoint) => {
+  if (rule.endpoints) return `${rule.endpoints.brands.name} - ${rule.endpoints.role} (${rule.endpoints.ip})`;
+  if (rule.tag) return `Tagged ${rule.tag}`;
+  return "All endpoints";
+};
+
+const AlertRuleList = () => {
+  const { data: rules, isLoading, error } = useAlertRules();
+  const { data: brands } = useBrandsWithEndpoints();
+  const { data: policies } = useEscalationPolicies();
+  const [dialog, setDialog] = useState<{ open: boolean; rule?: Tables<"alert_rules"> }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<AlertRuleWithEndpoint | null>(null);
+
+  const setRuleEnabled = useAlertRuleMutation(async ({ id, enabled }: { id: string; enabled: boolean }) => {
+    const { error } = await supabase.from("alert_rules").update({ enabled }).eq("id", id);
+    if (error) throw error;
+  });
+
+  const deleteRule = useAlertRuleMutation(async (id: string) => {
+    const { error } = await supabase.from("alert_rules").delete().eq("id", id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteRule.mutate(pendingDelete.id, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load alert rules: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/endpoints">
+            <Settings className="h-4 w-4" />
+            Endpoints
+          </Link>
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/escalation-policies">
+            <Siren className="h-4 w-4" />
+            Escalation
+          </Link>
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/webhooks">
+            <Webhook className="h-4 w-4" />
+            Webhooks
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add rule
+        </Button>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Condition</TableHead>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Severity</TableHead>
+              <TableHead>Channels</TableHead>
+              <TableHead className="text-center">Enabled</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No alert rules: nobody will be notified
+                </TableCell>
+              </TableRow>
+            )}
+            {rules.map(rule => (
+              <TableRow key={rule.id}>
+                <TableCell className="font-medium">{rule.name}</TableCell>
+                <TableCell>
+                  {CONDITION_LABELS[rule.condition as AlertCondition]}
+                  <span className="text-muted-foreground">
+                    {rule.duration_seconds > 0 ? ` for ${formatDuration(rule.duration_seconds)}` : " at once"}
+                  </span>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{describeScope(rule)}</TableCell>
+                <TableCell>
+                  <Badge variant={SEVERITY_VARIANTS[rule.severity as AlertSeverity]}>
+                    {SEVERITY_LABELS[rule.severity as AlertSeverity]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {rule.channels.map(c => CHANNEL_LABELS[c as AlertChannel] ?? c).join(", ")}
+                  {rule.escalation_policies && (
+                    <Badge variant="outline" className="ml-2">
+                      {rule.escalation_policies.name}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={enabled =>
+                      setRuleEnabled.mutate(
+                        { id: rule.id, enabled },
+                        { onError: err => toast.error(describeInventoryError(err)) }
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setDialog({ open: true, rule })}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit rule</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete(rule)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Delete rule</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <AlertRuleFormDialog
+        open={dialog.open}
+        rule={dialog.rule}
+        brands={brands ?? []}
+        tagSuggestions={listTags(brands ?? [])}
+        policies={policies ?? []}
+        onOpenChange={open => setDialog(prev => ({ ...prev, open }))}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>To stop it firing for a while instead, disable it.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminAlertRules = () => {
+  return (
+    <PageShell title="Alert rules" description="Who gets told what, and how soon">
+      <RequireAuth>
+        <AlertRuleList />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminAlertRules;
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { BellRing, Loader2, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { ContactFormDialog } from "@/components/admin/ContactFormDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { describeInventoryError, listTags, useBrandsWithEndpoints } from "@/hooks/use-inventory";
+import { useContactMutation, useContacts, type ContactWithBrands } from "@/hooks/use-contacts";
+import { CHANNEL_LABELS, type AlertChannel } from "@/lib/alert-rules";
+
+const ContactList = () => {
+  const { data: contacts, isLoading, error } = useContacts();
+  const { data: brands } = useBrandsWithEndpoints();
+  const [dialog, setDialog] = useState<{ open: boolean; contact?: ContactWithBrands }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<ContactWithBrands | null>(null);
+
+  const setContactEnabled = useContactMutation(async ({ id, enabled }: { id: string; enabled: boolean }) => {
+    const { error } = await supabase.from("contacts").update({ enabled }).eq("id", id);
+    if (error) throw error;
+  });
+
+  const deleteContact = useContactMutation(async (id: string) => {
+    const { error } = await supabase.from("contacts").delete().eq("id", id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteContact.mutate(pendingDelete.id, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load contacts: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/endpoints">
+            <Settings className="h-4 w-4" />
+            Endpoints
+          </Link>
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/alert-rules">
+            <BellRing className="h-4 w-4" />
+            Alert rules
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add contact
+        </Button>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>WhatsApp</TableHead>
+              <TableHead>Send by</TableHead>
+              <TableHead>Covers</TableHead>
+              <TableHead className="text-center">Enabled</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {contacts.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No contacts: alerts only go to escalation steps and fallback addresses
+                </TableCell>
+              </TableRow>
+            )}
+            {contacts.map(contact => (
+              <TableRow key={contact.id}>
+                <TableCell>
+                  <span className="font-medium">{contact.name}</span>
+                  {contact.title && <span className="block text-sm text-muted-foreground">{contact.title}</span>}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{contact.email}</TableCell>
+                <TableCell className="text-muted-foreground">{contact.phone}</TableCell>
+                <TableCell>{contact.channels.map(c => CHANNEL_LABELS[c as AlertChannel] ?? c).join(", ")}</TableCell>
+                <TableCell>
+                  {contact.contact_brands.length === 0 && contact.tags.length === 0 && (
+                    <span className="text-muted-foreground">Everything</span>
+                  )}
+                  {contact.contact_brands.map(link => (
+                    <Badge key={link.brand_id} variant="outline" className="mr-1">
+                      {link.brands.name}
+                    </Badge>
+                  ))}
+                  {contact.tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="mr-1">
+                      {tag}
+                    </Badge>
+                  ))}
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={contact.enabled}
+                    onCheckedChange={enabled =>
+                      setContactEnabled.mutate(
+                        { id: contact.id, enabled },
+                        { onError: err => toast.error(describeInventoryError(err)) }
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setDialog({ open: true, contact })}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit contact</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete(contact)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Delete contact</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <ContactFormDialog
+        open={dialog.open}
+        contact={dialog.contact}
+        brands={brands ?? []}
+        tagSuggestions={listTags(brands ?? [])}
+        onOpenChange={open => setDialog(prev => ({ ...prev, open }))}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>To stop their alerts for a while instead, disable them.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminContacts = () => {
+  return (
+    <PageShell title="Contacts" description="Who hears about which brands">
+      <RequireAuth>
+        <ContactList />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminContacts;
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { BellRing, Loader2, Network, Pencil, Plus, Trash2, Users, Wrench } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { BrandFormDialog } from "@/components/admin/BrandFormDialog";
+import { EndpointFormDialog } from "@/components/admin/EndpointFormDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  describeInventoryError,
+  listRoles,
+  useBrandsWithEndpoints,
+  useInventoryMutation,
+} from "@/hooks/use-inventory";
+
+type PendingDelete =
+  | { kind: "brand"; brand: Tables<"brands"> }
+  | { kind: "endpoint"; brand: Tables<"brands">; endpoint: Tables<"endpoints"> };
+
+const EndpointInventory = () => {
+  const { data: brands, isLoading, error } = useBrandsWithEndpoints();
+  const [brandDialog, setBrandDialog] = useState<{ open: boolean; brand?: Tables<"brands"> }>({ open: false });
+  const [endpointDialog, setEndpointDialog] = useState<{
+    open: boolean;
+    brand?: Tables<"brands">;
+    endpoint?: Tables<"endpoints">;
+  }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const setEndpointEnabled = useInventoryMutation(async ({ id, enabled }: { id: string; enabled: boolean }) => {
+    const { error } = await supabase.from("endpoints").update({ enabled }).eq("id", id);
+    if (error) throw error;
+  });
+
+  const deleteRow = useInventoryMutation(async (target: PendingDelete) => {
+    const { error } =
+      target.kind === "brand"
+        ? await supabase.from("brands").delete().eq("id", target.brand.id)
+        : await supabase.from("endpoints").delete().eq("id", target.endpoint.id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteRow.mutate(pendingDelete, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load brands: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/alert-rules">
+            <BellRing className="h-4 w-4" />
+            Alert rules
+          </Link>
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/contacts">
+            <Users className="h-4 w-4" />
+            Contacts
+          </Link>
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/network-groups">
+            <Network className="h-4 w-4" />
+            Networks
+          </Link>
+        </Button>
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/maintenance">
+            <Wrench className="h-4 w-4" />
+            Maintenance
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setBrandDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add brand
+        </Button>
+      </div>
+
+      <div className="grid gap-6">
+        {brands.map(brand => (
+          <Card key={brand.id} className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-border bg-muted/50">
+              <div>
+                <h2 className="font-semibold text-foreground">{brand.name}</h2>
+                <p className="text-sm text-muted-foreground">
+                  {brand.host} • default port {brand.default_port}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setEndpointDialog({ open: true, brand })}
+                >
+                  <Plus className="h-4 w-4" />
+                  Endpoint
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setBrandDialog({ open: true, brand })}>
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit {brand.name}</span>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setPendingDelete({ kind: "brand", brand })}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                  <span className="sr-only">Delete {brand.name}</span>
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Role</TableHead>
+                  <TableHead>IP address</TableHead>
+                  <TableHead className="text-right">Port</TableHead>
+                  <TableHead className="text-right">Timeout</TableHead>
+                  <TableHead className="text-right">Interval</TableHead>
+                  <TableHead className="text-center">Monitored</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {brand.endpoints.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No endpoints yet
+                    </TableCell>
+                  </TableRow>
+                )}
+                {brand.endpoints.map(endpoint => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell>
+                      <span className="font-medium">{endpoint.role}</span>
+                      {endpoint.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="ml-2">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {endpoint.ip}
+                      {!endpoint.enabled && (
+                        <Badge variant="outline" className="ml-2">
+                          Disabled
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{endpoint.port}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{endpoint.timeout_seconds}s</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{endpoint.interval_seconds}s</TableCell>
+                    <TableCell className="text-center">
+                      <Switch
+                        checked={endpoint.enabled}
+                        onCheckedChange={enabled =>
+                          setEndpointEnabled.mutate(
+                            { id: endpoint.id, enabled },
+                            { onError: err => toast.error(describeInventoryError(err)) }
+                          )
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEndpointDialog({ open: true, brand, endpoint })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit endpoint</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setPendingDelete({ kind: "endpoint", brand, endpoint })}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                        <span className="sr-only">Delete endpoint</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        ))}
+      </div>
+
+      <BrandFormDialog
+        open={brandDialog.open}
+        brand={brandDialog.brand}
+        onOpenChange={open => setBrandDialog(prev => ({ ...prev, open }))}
+      />
+      {endpointDialog.brand && (
+        <EndpointFormDialog
+          open={endpointDialog.open}
+          brand={endpointDialog.brand}
+          endpoint={endpointDialog.endpoint}
+          roleSuggestions={listRoles(brands)}
+          onOpenChange={open => setEndpointDialog(prev => ({ ...prev, open }))}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === "brand" ? `Delete ${pendingDelete.brand.name}?` : "Delete endpoint?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === "brand"
+                ? "The brand and all of its endpoints will be removed. To pause monitoring instead, disable its endpoints."
+                : "The endpoint will be removed. To pause monitoring instead, disable it."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminEndpoints = () => {
+  return (
+    <PageShell title="Endpoints" description="Brands and the IPs monitored for each of them">
+      <RequireAuth>
+        <EndpointInventory />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminEndpoints;
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { BellRing, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { EscalationPolicyFormDialog } from "@/components/admin/EscalationPolicyFormDialog";
+import { EscalationStepFormDialog } from "@/components/admin/EscalationStepFormDialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useEscalationPolicies, useEscalationPolicyMutation } from "@/hooks/use-escalation-policies";
+import { formatDuration } from "@/lib/format";
+import { CHANNEL_LABELS, type AlertChannel } from "@/lib/alert-rules";
+
+type PendingDelete =
+  | { kind: "policy"; policy: Tables<"escalation_policies"> }
+  | { kind: "step"; policy: Tables<"escalation_policies">; step: Tables<"escalation_steps"> };
+
+const EscalationPolicyList = () => {
+  const { data: policies, isLoading, error } = useEscalationPolicies();
+  const [policyDialog, setPolicyDialog] = useState<{ open: boolean; policy?: Tables<"escalation_policies"> }>({
+    open: false,
+  });
+  const [stepDialog, setStepDialog] = useState<{
+    open: boolean;
+    policy?: Tables<"escalation_policies">;
+    step?: Tables<"escalation_steps">;
+  }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const deleteRow = useEscalationPolicyMutation(async (target: PendingDelete) => {
+    const { error } =
+      target.kind === "policy"
+        ? await supabase.from("escalation_policies").delete().eq("id", target.policy.id)
+        : await supabase.from("escalation_steps").delete().eq("id", target.step.id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteRow.mutate(pendingDelete, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load escalation policies: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/alert-rules">
+            <BellRing className="h-4 w-4" />
+            Alert rules
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setPolicyDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add policy
+        </Button>
+      </div>
+
+      {policies.length === 0 && (
+        <p className="text-center text-muted-foreground">
+          No escalation policies yet. Rules without one alert once on their own channels.
+        </p>
+      )}
+
+      <div className="grid gap-6">
+        {policies.map(policy => (
+          <Card key={policy.id} className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-border bg-muted/50">
+              <div>
+                <h2 className="font-semibold text-foreground">{policy.name}</h2>
+                <p className="text-sm text-muted-foreground">
+                  {policy.repeat_every_minutes
+                    ? `Repeats every ${formatDuration(policy.repeat_every_minutes * 60)} until acknowledged or recovered`
+                    : "Sent once"}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setStepDialog({ open: true, policy })}
+                >
+                  <Plus className="h-4 w-4" />
+                  Step
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setPolicyDialog({ open: true, policy })}>
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit {policy.name}</span>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => setPendingDelete({ kind: "policy", policy })}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                  <span className="sr-only">Delete {policy.name}</span>
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>After</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policy.escalation_steps.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No steps yet
+                    </TableCell>
+                  </TableRow>
+                )}
+                {policy.escalation_steps.map(step => (
+                  <TableRow key={step.id}>
+                    <TableCell className="font-medium">
+                      {step.delay_minutes > 0 ? formatDuration(step.delay_minutes * 60) : "At once"}
+                    </TableCell>
+                    <TableCell>{CHANNEL_LABELS[step.channel as AlertChannel] ?? step.channel}</TableCell>
+                    <TableCell className="text-muted-foreground">{step.recipient}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => setStepDialog({ open: true, policy, step })}>
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit step</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setPendingDelete({ kind: "step", policy, step })}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                        <span className="sr-only">Delete step</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        ))}
+      </div>
+
+      <EscalationPolicyFormDialog
+        open={policyDialog.open}
+        policy={policyDialog.policy}
+        onOpenChange={open => setPolicyDialog(prev => ({ ...prev, open }))}
+      />
+      {stepDialog.policy && (
+        <EscalationStepFormDialog
+          open={stepDialog.open}
+          policy={stepDialog.policy}
+          step={stepDialog.step}
+          onOpenChange={open => setStepDialog(prev => ({ ...prev, open }))}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === "policy" ? `Delete ${pendingDelete.policy.name}?` : "Delete step?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === "policy"
+                ? "Rules using this policy will only alert on their own channels. Rules with no channels of their own must be given one first."
+                : "Nobody will be notified at this step any more."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminEscalationPolicies = () => {
+  return (
+    <PageShell title="Escalation policies" description="Who is told next when nobody picks up an incident">
+      <RequireAuth>
+        <EscalationPolicyList />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminEscalationPolicies;
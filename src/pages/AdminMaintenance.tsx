@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { MaintenanceFormDialog } from "@/components/admin/MaintenanceFormDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError, listTags, useBrandsWithEndpoints } from "@/hooks/use-inventory";
+import {
+  useMaintenanceMutation,
+  useMaintenanceWindows,
+  type MaintenanceWindowWithScope,
+} from "@/hooks/use-maintenance";
+import { describeSchedule, isMaintenanceActive, isMaintenanceOver } from "@/lib/maintenance";
+
+const describeScope = (maintenance: MaintenanceWindowWithScope) => {
+  if (maintenance.endpoints) {
+    return `${maintenance.endpoints.brands.name} - ${maintenance.endpoints.role} (${maintenance.endpoints.ip})`;
+  }
+  if (maintenance.brands) return maintenance.brands.name;
+  if (maintenance.tag) return `Tagged ${maintenance.tag}`;
+  return "All endpoints";
+};
+
+const MaintenanceStatus = ({ maintenance }: { maintenance: MaintenanceWindowWithScope }) => {
+  if (isMaintenanceActive(maintenance)) return <Badge>In progress</Badge>;
+  if (isMaintenanceOver(maintenance)) return <Badge variant="outline">Over</Badge>;
+  return <Badge variant="secondary">Scheduled</Badge>;
+};
+
+const MaintenanceList = () => {
+  const { data: windows, isLoading, error } = useMaintenanceWindows();
+  const { data: brands } = useBrandsWithEndpoints();
+  const [dialog, setDialog] = useState<{ open: boolean; maintenance?: Tables<"maintenance_windows"> }>({
+    open: false,
+  });
+  const [pendingDelete, setPendingDelete] = useState<MaintenanceWindowWithScope | null>(null);
+
+  const deleteWindow = useMaintenanceMutation(async (id: string) => {
+    const { error } = await supabase.from("maintenance_windows").delete().eq("id", id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteWindow.mutate(pendingDelete.id, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load maintenance windows: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/endpoints">
+            <Settings className="h-4 w-4" />
+            Endpoints
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add window
+        </Button>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies to</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {windows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No maintenance windows
+                </TableCell>
+              </TableRow>
+            )}
+            {windows.map(maintenance => (
+              <TableRow key={maintenance.id}>
+                <TableCell className="font-medium">{describeScope(maintenance)}</TableCell>
+                <TableCell className="text-muted-foreground">{describeSchedule(maintenance)}</TableCell>
+                <TableCell className="text-muted-foreground">{maintenance.reason ?? "-"}</TableCell>
+                <TableCell>
+                  <MaintenanceStatus maintenance={maintenance} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setDialog({ open: true, maintenance })}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit window</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete(maintenance)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Delete window</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <MaintenanceFormDialog
+        open={dialog.open}
+        maintenance={dialog.maintenance}
+        brands={brands ?? []}
+        tagSuggestions={listTags(brands ?? [])}
+        onOpenChange={open => setDialog(prev => ({ ...prev, open }))}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this maintenance window?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its time counts towards uptime again, including any downtime during it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminMaintenance = () => {
+  return (
+    <PageShell title="Maintenance" description="Planned work during which alerts are muted and uptime is not counted">
+      <RequireAuth>
+        <MaintenanceList />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminMaintenance;
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { NetworkGroupFormDialog } from "@/components/admin/NetworkGroupFormDialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { describeInventoryError, useBrandsWithEndpoints } from "@/hooks/use-inventory";
+import { useNetworkGroupMutation, useNetworkGroups, type NetworkGroup } from "@/hooks/use-network-groups";
+import { ipInCidr } from "@/lib/validation";
+
+const NetworkGroupList = () => {
+  const { data: groups, isLoading, error } = useNetworkGroups();
+  const { data: brands } = useBrandsWithEndpoints();
+  const [dialog, setDialog] = useState<{ open: boolean; group?: NetworkGroup }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<NetworkGroup | null>(null);
+
+  const endpoints = (brands ?? []).flatMap(brand => brand.endpoints.filter(endpoint => endpoint.enabled));
+  const memberCount = (group: NetworkGroup) =>
+    endpoints.filter(endpoint => ipInCidr(endpoint.ip, String(group.cidr))).length;
+
+  const setGroupEnabled = useNetworkGroupMutation(async ({ id, enabled }: { id: string; enabled: boolean }) => {
+    const { error } = await supabase.from("network_groups").update({ enabled }).eq("id", id);
+    if (error) throw error;
+  });
+
+  const deleteGroup = useNetworkGroupMutation(async (id: string) => {
+    const { error } = await supabase.from("network_groups").delete().eq("id", id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteGroup.mutate(pendingDelete.id, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load networks: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/endpoints">
+            <Settings className="h-4 w-4" />
+            Endpoints
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add network
+        </Button>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Network</TableHead>
+              <TableHead className="text-right">Endpoints</TableHead>
+              <TableHead className="text-right">Outage at</TableHead>
+              <TableHead className="text-center">Enabled</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No networks: closures are only grouped into site outages
+                </TableCell>
+              </TableRow>
+            )}
+            {groups.map(group => (
+              <TableRow key={group.id}>
+                <TableCell>
+                  <span className="font-medium">{group.name}</span>
+                  {group.provider && <span className="block text-sm text-muted-foreground">{group.provider}</span>}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{String(group.cidr)}</TableCell>
+                <TableCell className="text-right">{memberCount(group)}</TableCell>
+                <TableCell className="text-right text-muted-foreground">{group.threshold_percent}% closed</TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={group.enabled}
+                    onCheckedChange={enabled =>
+                      setGroupEnabled.mutate(
+                        { id: group.id, enabled },
+                        { onError: err => toast.error(describeInventoryError(err)) }
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setDialog({ open: true, group })}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit network</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete(group)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Delete network</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <NetworkGroupFormDialog
+        open={dialog.open}
+        group={dialog.group}
+        onOpenChange={open => setDialog(prev => ({ ...prev, open }))}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its past outages are removed too. To stop detecting outages for a while instead, disable it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminNetworkGroups = () => {
+  return (
+    <PageShell title="Networks" description="Upstream links shared by several endpoints">
+      <RequireAuth>
+        <NetworkGroupList />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminNetworkGroups;
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { BellRing, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { RequireAuth, SignOutButton } from "@/components/admin/RequireAuth";
+import { WebhookFormDialog } from "@/components/admin/WebhookFormDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { describeInventoryError } from "@/hooks/use-inventory";
+import { useWebhookMutation, useWebhooks, type WebhookWithLastDelivery } from "@/hooks/use-webhooks";
+import { formatTimestamp } from "@/lib/format";
+import { WEBHOOK_EVENT_LABELS, type WebhookEvent } from "@/lib/webhooks";
+
+const DELIVERY_VARIANTS: Record<string, "secondary" | "outline" | "destructive"> = {
+  delivered: "secondary",
+  pending: "outline",
+  failed: "destructive",
+};
+
+const LastDelivery = ({ webhook }: { webhook: WebhookWithLastDelivery }) => {
+  const delivery = webhook.webhook_deliveries[0];
+  if (!delivery) return <span className="text-muted-foreground">Nothing sent yet</span>;
+
+  return (
+    <div className="text-sm" title={delivery.last_error ?? undefined}>
+      <Badge variant={DELIVERY_VARIANTS[delivery.status] ?? "outline"} className="mr-2">
+        {delivery.status}
+      </Badge>
+      {WEBHOOK_EVENT_LABELS[delivery.event as WebhookEvent] ?? delivery.event}
+      <span className="text-muted-foreground">
+        {delivery.last_status !== null && ` • HTTP ${delivery.last_status}`}
+        {delivery.attempts > 1 && ` • ${delivery.attempts} attempts`}
+        {" • "}
+        {formatTimestamp(delivery.last_attempt_at ?? delivery.created_at)}
+      </span>
+    </div>
+  );
+};
+
+const WebhookList = () => {
+  const { data: webhooks, isLoading, error } = useWebhooks();
+  const [dialog, setDialog] = useState<{ open: boolean; webhook?: Tables<"webhooks"> }>({ open: false });
+  const [pendingDelete, setPendingDelete] = useState<WebhookWithLastDelivery | null>(null);
+
+  const setWebhookEnabled = useWebhookMutation(async ({ id, enabled }: { id: string; enabled: boolean }) => {
+    const { error } = await supabase.from("webhooks").update({ enabled }).eq("id", id);
+    if (error) throw error;
+  });
+
+  const deleteWebhook = useWebhookMutation(async (id: string) => {
+    const { error } = await supabase.from("webhooks").delete().eq("id", id);
+    if (error) throw error;
+  });
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteWebhook.mutate(pendingDelete.id, {
+      onSuccess: () => toast.success("Deleted"),
+      onError: err => toast.error(describeInventoryError(err)),
+      onSettled: () => setPendingDelete(null),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-center text-destructive">Failed to load webhooks: {error.message}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-end gap-2 mb-4">
+        <Button asChild variant="ghost" size="sm" className="gap-2">
+          <Link to="/admin/alert-rules">
+            <BellRing className="h-4 w-4" />
+            Alert rules
+          </Link>
+        </Button>
+        <SignOutButton />
+        <Button size="sm" className="gap-2" onClick={() => setDialog({ open: true })}>
+          <Plus className="h-4 w-4" />
+          Add webhook
+        </Button>
+      </div>
+
+      <Card className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Webhook</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Last delivery</TableHead>
+              <TableHead className="text-center">Enabled</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {webhooks.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No webhooks yet
+                </TableCell>
+              </TableRow>
+            )}
+            {webhooks.map(webhook => (
+              <TableRow key={webhook.id}>
+                <TableCell>
+                  <span className="font-medium">{webhook.name}</span>
+                  <span className="block text-sm text-muted-foreground break-all">{webhook.url}</span>
+                </TableCell>
+                <TableCell>
+                  {webhook.events.map(event => WEBHOOK_EVENT_LABELS[event as WebhookEvent] ?? event).join(", ")}
+                </TableCell>
+                <TableCell>
+                  <LastDelivery webhook={webhook} />
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={webhook.enabled}
+                    onCheckedChange={enabled =>
+                      setWebhookEnabled.mutate(
+                        { id: webhook.id, enabled },
+                        { onError: err => toast.error(describeInventoryError(err)) }
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setDialog({ open: true, webhook })}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit webhook</span>
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete(webhook)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                    <span className="sr-only">Delete webhook</span>
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <WebhookFormDialog
+        open={dialog.open}
+        webhook={dialog.webhook}
+        onOpenChange={open => setDialog(prev => ({ ...prev, open }))}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deliveries still waiting to be sent are dropped. To pause it instead, disable it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+const AdminWebhooks = () => {
+  return (
+    <PageShell title="Webhooks" description="Incident events posted to your helpdesk and chat tools">
+      <RequireAuth>
+        <WebhookList />
+      </RequireAuth>
+    </PageShell>
+  );
+};
+
+export default AdminWebhooks;
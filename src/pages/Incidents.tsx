@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { endOfDay, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { PageShell } from "@/components/PageShell";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useInventory } from "@/hooks/use-inventory";
+import { useAcknowledgeIncident, useIncidents, type IncidentWithDetails } from "@/hooks/use-incidents";
+import { useSession } from "@/hooks/use-session";
+import { formatDuration, formatTimestamp } from "@/lib/format";
+
+const ALL_BRANDS = "all";
+
+const incidentDuration = (incident: IncidentWithDetails) =>
+  incident.duration_seconds ?? (Date.now() - new Date(incident.opened_at).getTime()) / 1000;
+
+const Incidents = () => {
+  const [brandId, setBrandId] = useState(ALL_BRANDS);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const { data: brands } = useInventory();
+  const { session } = useSession();
+  const acknowledge = useAcknowledgeIncident();
+
+  const { data: incidents, isLoading, error } = useIncidents({
+    brandId: brandId === ALL_BRANDS ? undefined : brandId,
+    from: range?.from ? startOfDay(range.from) : undefined,
+    to: range?.from ? endOfDay(range.to ?? range.from) : undefined,
+  });
+
+  const onAcknowledge = (incidentId: string) => {
+    acknowledge.mutate(incidentId, {
+      onSuccess: () => toast.success("Incident acknowledged"),
+      onError: err => toast.error(err.message),
+    });
+  };
+
+  return (
+    <PageShell
+      title="Incidents"
+      description="Every confirmed closure, from the moment it was detected until recovery."
+      actions={
+        <>
+          <Select value={brandId} onValueChange={setBrandId}>
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_BRANDS}>All brands</SelectItem>
+              {brands?.map(brand => (
+                <SelectItem key={brand.id} value={brand.id}>
+                  {brand.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DateRangePicker value={range} onChange={setRange} />
+        </>
+      }
+    >
+      <Card className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 text-primary animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="p-6 text-center text-destructive">Failed to load incidents: {error.message}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Brand</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Closed at</TableHead>
+                <TableHead>Recovered at</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead>Acknowledged</TableHead>
+                <TableHead>Notifications</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {incidents.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No incidents match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+              {incidents.map(incident => (
+                <TableRow key={incident.id}>
+                  <TableCell className="font-medium">{incident.endpoints.brands.name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {incident.endpoints.role} ({incident.endpoints.ip}:{incident.endpoints.port})
+                    {incident.outages && (
+                      <Badge variant="outline" className="ml-2">
+                        {incident.outages.kind === "network" ? `ISP outage: ${incident.outages.title}` : "Site down"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatTimestamp(incident.opened_at)}</TableCell>
+                  <TableCell>
+                    {incident.resolved_at ? (
+                      formatTimestamp(incident.resolved_at)
+                    ) : (
+                      <Badge variant="destructive">Ongoing</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatDuration(incidentDuration(incident))}</TableCell>
+                  <TableCell>
+                    {incident.acknowledged_at ? (
+                      <div className="flex items-center gap-2 text-sm">
+                        <CheckCircle2 className="h-4 w-4 text-success" />
+                        <span>
+                          {incident.incident_acknowledgers?.email ?? (session ? "Unknown user" : "Acknowledged")}
+                          <span className="block text-xs text-muted-foreground">
+                            {formatTimestamp(incident.acknowledged_at)}
+                          </span>
+                        </span>
+                      </div>
+                    ) : session ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={acknowledge.isPending}
+                        onClick={() => onAcknowledge(incident.id)}
+                      >
+                        Acknowledge
+                      </Button>
+                    ) : (
+                      <span className="text-sm text-muted-foreground" title="Sign in on the admin page to acknowledge">
+                        Not yet
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {!session
+                      ? "Sign in to see"
+                      : incident.incident_notifications.length === 0
+                        ? "None"
+                        : incident.incident_notifications.map(notification => (
+                            <div key={notification.id}>
+                              {notification.kind} via {notification.channel}
+                              {notification.recipient && ` to ${notification.recipient}`}
+                              {notification.escalation_steps &&
+                                ` (${formatDuration(notification.escalation_steps.delay_minutes * 60)} step, round ${
+                                  (notification.round ?? 0) + 1
+                                })`}{" "}
+                              • {formatTimestamp(notification.sent_at)}
+                            </div>
+                          ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </PageShell>
+  );
+};
+
+export default Incidents;
@@ -0,0 +1,57 @@
+import { useMemo, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Loader2 } from "lucide-react";
+import { PageShell } from "@/components/PageShell";
+import { LatencyChart } from "@/components/reports/LatencyChart";
+import { ReportRangeSelect } from "@/components/reports/ReportRangeSelect";
+import { Card } from "@/components/ui/card";
+import { useInventory } from "@/hooks/use-inventory";
+import { resolveReportRange, type ReportPreset } from "@/lib/report-range";
+
+const LatencyReport = () => {
+  const [preset, setPreset] = useState<ReportPreset>("day");
+  const [custom, setCustom] = useState<DateRange | undefined>();
+  const range = useMemo(() => resolveReportRange(preset, custom, new Date()), [preset, custom]);
+  const { data: brands, isLoading, error } = useInventory();
+
+  return (
+    <PageShell
+      title="Latency"
+      description="Connect time per endpoint: minimum, average and 95th percentile of each interval."
+      actions={<ReportRangeSelect preset={preset} onPresetChange={setPreset} custom={custom} onCustomChange={setCustom} />}
+    >
+      {!range ? (
+        <p className="text-center text-muted-foreground">Pick a date range to draw the charts.</p>
+      ) : isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 text-primary animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-center text-destructive">Failed to load endpoints: {error.message}</p>
+      ) : (
+        <div className="grid gap-6">
+          {brands.map(brand => (
+            <Card key={brand.id} className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+              <div className="px-4 py-3 border-b border-border bg-muted/50">
+                <h2 className="font-semibold text-foreground">{brand.name}</h2>
+              </div>
+              <div className="grid gap-4 p-4 md:grid-cols-2">
+                {brand.endpoints.map(endpoint => (
+                  <div key={endpoint.id}>
+                    <h3 className="mb-2 text-sm font-medium text-foreground">
+                      {endpoint.role}
+                      <span className="text-muted-foreground"> ({endpoint.ip}:{endpoint.port})</span>
+                    </h3>
+                    <LatencyChart endpointId={endpoint.id} range={range} />
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </PageShell>
+  );
+};
+
+export default LatencyReport;
@@ -0,0 +1,128 @@
+import { Fragment, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { PageShell } from "@/components/PageShell";
+import { ReportRangeSelect } from "@/components/reports/ReportRangeSelect";
+import { Card } from "@/components/ui/card";
+import { useInventory } from "@/hooks/use-inventory";
+import { useAvailabilityGrid } from "@/hooks/use-reports";
+import type { ReportPreset } from "@/lib/report-range";
+
+type HeatmapPreset = Exclude<ReportPreset, "custom">;
+
+const HEATMAP_PRESETS: Record<HeatmapPreset, { spanHours: number; bucketSeconds: number; labelEvery: number }> = {
+  day: { spanHours: 24, bucketSeconds: 1800, labelEvery: 4 },
+  week: { spanHours: 24 * 7, bucketSeconds: 3600, labelEvery: 24 },
+  month: { spanHours: 24 * 30, bucketSeconds: 21600, labelEvery: 4 * 5 },
+};
+
+const cellClass = (availability: number | null) => {
+  if (availability === null) return "bg-muted/40";
+  if (availability >= 100) return "bg-success";
+  if (availability >= 99) return "bg-success/50";
+  if (availability >= 90) return "bg-warning";
+  if (availability >= 50) return "bg-orange-500";
+  return "bg-destructive";
+};
+
+const LEGEND: { label: string; value: number | null }[] = [
+  { label: "100%", value: 100 },
+  { label: "99%+", value: 99 },
+  { label: "90%+", value: 90 },
+  { label: "50%+", value: 50 },
+  { label: "Below 50%", value: 0 },
+  { label: "No data", value: null },
+];
+
+const OutageHeatmap = () => {
+  const [preset, setPreset] = useState<HeatmapPreset>("day");
+  const { spanHours, bucketSeconds, labelEvery } = HEATMAP_PRESETS[preset];
+
+  // Align the range to whole buckets so columns line up with clock times
+  const range = useMemo(() => {
+    const bucketMs = bucketSeconds * 1000;
+    const to = new Date(Math.ceil(Date.now() / bucketMs) * bucketMs);
+    return { from: new Date(to.getTime() - spanHours * 3600000), to };
+  }, [spanHours, bucketSeconds]);
+  const buckets = Array.from(
+    { length: (spanHours * 3600) / bucketSeconds },
+    (_, i) => new Date(range.from.getTime() + i * bucketSeconds * 1000)
+  );
+  const labelFormat = preset === "day" ? "HH:mm" : preset === "week" ? "EEE d" : "d MMM";
+
+  const { data: brands, isLoading: isBrandsLoading, error: brandsError } = useInventory();
+  const { data: grid, isLoading: isGridLoading, error: gridError } = useAvailabilityGrid(range, bucketSeconds);
+  const error = brandsError ?? gridError;
+
+  return (
+    <PageShell
+      title="Outage heatmap"
+      description="Share of successful checks per endpoint over time. Maintenance windows show as no data."
+      actions={
+        <ReportRangeSelect
+          preset={preset}
+          onPresetChange={p => setPreset(p as HeatmapPreset)}
+          presets={["day", "week", "month"]}
+        />
+      }
+    >
+      {isBrandsLoading || isGridLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 text-primary animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-center text-destructive">Failed to load the heatmap: {error.message}</p>
+      ) : (
+        <Card className="bg-card/50 backdrop-blur-xl border-2 border-border p-4 overflow-x-auto">
+          <div
+            className="grid min-w-[720px] items-center gap-px text-xs"
+            style={{ gridTemplateColumns: `14rem repeat(${buckets.length}, minmax(0, 1fr))` }}
+          >
+            <div />
+            {buckets.map((bucket, i) => (
+              <div key={bucket.getTime()} className="relative h-5">
+                {i % labelEvery === 0 && (
+                  <span className="absolute left-0 bottom-0 whitespace-nowrap text-muted-foreground">
+                    {format(bucket, labelFormat)}
+                  </span>
+                )}
+              </div>
+            ))}
+
+            {brands.flatMap(brand =>
+              brand.endpoints.map(endpoint => (
+                <Fragment key={endpoint.id}>
+                  <div className="truncate pr-2 text-foreground" title={`${brand.name} - ${endpoint.role} (${endpoint.ip})`}>
+                    {brand.name}
+                    <span className="text-muted-foreground"> - {endpoint.role}</span>
+                  </div>
+                  {buckets.map((bucket, i) => {
+                    const availability = grid[endpoint.id]?.[i] ?? null;
+                    return (
+                      <div
+                        key={bucket.getTime()}
+                        className={`h-5 rounded-[2px] ${cellClass(availability)}`}
+                        title={`${format(bucket, "d MMM HH:mm")} • ${availability === null ? "No data" : `${availability}%`}`}
+                      />
+                    );
+                  })}
+                </Fragment>
+              ))
+            )}
+          </div>
+
+          <div className="mt-4 flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {LEGEND.map(({ label, value }) => (
+              <div key={label} className="flex items-center gap-1">
+                <span className={`h-3 w-3 rounded-[2px] ${cellClass(value)}`} />
+                {label}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </PageShell>
+  );
+};
+
+export default OutageHeatmap;
@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Loader2 } from "lucide-react";
+import { PageShell } from "@/components/PageShell";
+import { ReportRangeSelect } from "@/components/reports/ReportRangeSelect";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBrandsWithEndpoints } from "@/hooks/use-inventory";
+import { useUptimeReport, type EndpointUptime } from "@/hooks/use-reports";
+import { formatDuration } from "@/lib/format";
+import { resolveReportRange, type ReportPreset } from "@/lib/report-range";
+
+const availabilityClass = (availability: number) =>
+  availability >= 99.9 ? "text-success" : availability >= 99 ? "text-warning" : "text-destructive";
+
+const Availability = ({ value }: { value: number | null }) =>
+  value === null ? (
+    <span className="text-muted-foreground">No data</span>
+  ) : (
+    <span className={`font-semibold ${availabilityClass(value)}`}>{value.toFixed(3)}%</span>
+  );
+
+// Combined availability of several endpoints, weighted by monitored time
+const combine = (rows: EndpointUptime[]) => {
+  const monitored = rows.reduce((sum, r) => sum + r.monitored_seconds, 0);
+  const downtime = rows.reduce((sum, r) => sum + r.downtime_seconds, 0);
+  return monitored > 0 ? 100 * (1 - downtime / monitored) : null;
+};
+
+const UptimeReport = () => {
+  const [preset, setPreset] = useState<ReportPreset>("month");
+  const [custom, setCustom] = useState<DateRange | undefined>();
+  const range = useMemo(() => resolveReportRange(preset, custom, new Date()), [preset, custom]);
+
+  const { data: brands, isLoading: isBrandsLoading, error: brandsError } = useBrandsWithEndpoints();
+  const { data: uptime, isLoading: isUptimeLoading, error: uptimeError } = useUptimeReport(range);
+  const error = brandsError ?? uptimeError;
+
+  return (
+    <PageShell
+      title="Uptime report"
+      description="Availability of each link from stored checks. Probe errors and maintenance windows are excluded."
+      actions={<ReportRangeSelect preset={preset} onPresetChange={setPreset} custom={custom} onCustomChange={setCustom} />}
+    >
+      {!range ? (
+        <p className="text-center text-muted-foreground">Pick a date range to build the report.</p>
+      ) : isBrandsLoading || isUptimeLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 text-primary animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-center text-destructive">Failed to load the report: {error.message}</p>
+      ) : (
+        <div className="grid gap-6">
+          {brands.map(brand => {
+            const rows = brand.endpoints.map(endpoint => ({ endpoint, uptime: uptime[endpoint.id] }));
+            return (
+              <Card key={brand.id} className="bg-card/50 backdrop-blur-xl border-2 border-border overflow-hidden">
+                <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border bg-muted/50">
+                  <h2 className="font-semibold text-foreground">{brand.name}</h2>
+                  <Availability value={combine(rows.flatMap(r => (r.uptime ? [r.uptime] : [])))} />
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Endpoint</TableHead>
+                      <TableHead className="text-right">Availability</TableHead>
+                      <TableHead className="text-right">Outages</TableHead>
+                      <TableHead className="text-right">Longest downtime</TableHead>
+                      <TableHead className="text-right">Total downtime</TableHead>
+                      <TableHead className="text-right">Monitored</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(({ endpoint, uptime: row }) => (
+                      <TableRow key={endpoint.id}>
+                        <TableCell>
+                          <span className="font-medium">{endpoint.role}</span>
+                          <span className="text-muted-foreground"> ({endpoint.ip})</span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Availability value={row?.availability ?? null} />
+                        </TableCell>
+                        <TableCell className="text-right">{row?.outages ?? 0}</TableCell>
+                        <TableCell className="text-right">{formatDuration(row?.longest_outage_seconds ?? 0)}</TableCell>
+                        <TableCell className="text-right">{formatDuration(row?.downtime_seconds ?? 0)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {formatDuration(row?.monitored_seconds ?? 0)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </PageShell>
+  );
+};
+
+export default UptimeReport;
@@ -0,0 +1,93 @@
+// A stand-in for the WhatsApp Cloud API's send-message endpoint, so WhatsApp
+// alerts can be tested offline. It accepts what send-whatsapp-alert sends,
+// prints each message and answers the way the Graph API does.
+//
+//   deno run --allow-net --allow-env supabase/dev/whatsapp-graph-mock.ts
+//
+// then serve the functions with
+//
+//   WHATSAPP_API_BASE_URL=http://host.docker.internal:8025/v18.0
+//   WHATSAPP_ACCESS_TOKEN=test
+//   WHATSAPP_PHONE_NUMBER_ID=1234567890
+//
+// GET /messages lists everything received since start. Numbers listed in
+// WHATSAPP_MOCK_FAIL_NUMBERS (comma-separated) are rejected, to exercise retries.
+
+const PORT = Number(Deno.env.get('WHATSAPP_MOCK_PORT') ?? 8025);
+const FAIL_NUMBERS = new Set(
+  (Deno.env.get('WHATSAPP_MOCK_FAIL_NUMBERS') ?? '').split(',').map((n) => n.trim()).filter(Boolean),
+);
+
+interface ReceivedMessage {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  body: string;
+  replyTo: string | null;
+  receivedAt: string;
+}
+
+const received: ReceivedMessage[] = [];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body, null, 2), { status, headers: { 'Content-Type': 'application/json' } });
+
+const graphError = (status: number, message: string, code: number) =>
+  json({ error: { message, type: 'OAuthException', code, fbtrace_id: crypto.randomUUID() } }, status);
+
+Deno.serve({ port: PORT }, async (req) => {
+  const url = new URL(req.url);
+
+  if (req.method === 'GET' && url.pathname === '/messages') {
+    return json(received);
+  }
+
+  const match = url.pathname.match(/^\/v[\d.]+\/([^/]+)\/messages$/);
+  if (req.method !== 'POST' || !match) {
+    return graphError(404, `Unknown path components: ${url.pathname}`, 2500);
+  }
+
+  if (!req.headers.get('Authorization')?.startsWith('Bearer ')) {
+    return graphError(401, 'An access token is required to request this resource.', 104);
+  }
+
+  let payload: {
+    messaging_product?: string;
+    to?: string;
+    type?: string;
+    text?: { body?: string };
+    context?: { message_id?: string };
+  };
+  try {
+    payload = await req.json();
+  } catch {
+    return graphError(400, 'Invalid JSON payload', 100);
+  }
+
+  if (payload.messaging_product !== 'whatsapp' || !payload.to || payload.type !== 'text' || !payload.text?.body) {
+    return graphError(400, '(#100) Invalid parameter', 100);
+  }
+
+  if (FAIL_NUMBERS.has(payload.to)) {
+    console.log(`Rejecting message to ${payload.to}`);
+    return graphError(400, '(#131026) Message undeliverable', 131026);
+  }
+
+  const message: ReceivedMessage = {
+    id: `wamid.${crypto.randomUUID().replaceAll('-', '')}`,
+    phoneNumberId: match[1],
+    to: payload.to,
+    body: payload.text.body,
+    replyTo: payload.context?.message_id ?? null,
+    receivedAt: new Date().toISOString(),
+  };
+  received.push(message);
+  const reply = message.replyTo ? `, replying to ${message.replyTo}` : '';
+  console.log(`--- to ${message.to} (${message.id}${reply}) ---\n${message.body}\n`);
+
+  return json({
+    messaging_product: 'whatsapp',
+    contacts: [{ input: payload.to, wa_id: payload.to }],
+    messages: [{ id: message.id }],
+  });
+});
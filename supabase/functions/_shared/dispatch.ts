@@ -0,0 +1,76 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+
+// Exactly-once sending for the alert functions. A caller names each message
+// with an idempotency key; the first request to claim it sends, and any
+// repeat gets that send's result back instead of a second message.
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
+
+export type DispatchChannel = 'email' | 'whatsapp';
+
+export interface DispatchResult {
+  // False when an earlier request already sent this message
+  sent: boolean;
+  messageId: string | null;
+  recipients: string[];
+  // Email subject, for replies to the message
+  subject: string | null;
+}
+
+// Another request holds the key and has not finished yet
+export class DispatchInProgressError extends Error {
+  constructor(key: string) {
+    super(`Alert ${key} is already being sent`);
+    this.name = 'DispatchInProgressError';
+  }
+}
+
+export async function dispatchOnce(
+  key: string,
+  channel: DispatchChannel,
+  send: () => Promise<{ messageId: string | null; recipients: string[]; subject?: string }>,
+): Promise<DispatchResult> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_alert_dispatch', {
+    dispatch_key: key,
+    dispatch_channel: channel,
+  });
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    const { data: existing, error } = await supabase
+      .from('alert_dispatches')
+      .select('status, message_id, recipients, subject')
+      .eq('key', key)
+      .single();
+    if (error) throw error;
+    if (existing.status !== 'sent') throw new DispatchInProgressError(key);
+    console.log(`Alert ${key} was already sent; not sending it again`);
+    return {
+      sent: false,
+      messageId: existing.message_id,
+      recipients: existing.recipients,
+      subject: existing.subject,
+    };
+  }
+
+  try {
+    const { messageId, recipients, subject = null } = await send();
+    const { error } = await supabase
+      .from('alert_dispatches')
+      .update({ status: 'sent', sent_at: new Date().toISOString(), message_id: messageId, recipients, subject })
+      .eq('key', key);
+    if (error) console.error(`Sent alert ${key} but failed to record it:`, error);
+    return { sent: true, messageId, recipients, subject };
+  } catch (sendError) {
+    // Release the key so the next attempt can send
+    const { error } = await supabase
+      .from('alert_dispatches')
+      .update({ status: 'failed', last_error: sendError instanceof Error ? sendError.message : 'Unknown error' })
+      .eq('key', key);
+    if (error) console.error(`Failed to release alert ${key}:`, error);
+    throw sendError;
+  }
+}
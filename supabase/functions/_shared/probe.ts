@@ -0,0 +1,106 @@
+// `closed` means the host answered and refused, or never accepted in time.
+// `error` means the probe itself could not tell (DNS failure, local network
+// problems, ...) and must not be treated as the port being down.
+export type ProbeStatus = 'open' | 'closed' | 'error';
+
+export type ProbeReason = 'connected' | 'timeout' | 'refused' | 'dns' | 'function_error';
+
+export interface ProbeResult {
+  open: boolean;
+  status: ProbeStatus;
+  reason: ProbeReason;
+  time_ms: number;
+  message: string;
+}
+
+const DNS_FAILURE = /lookup address|name or service not known|nodename nor servname|no address associated/i;
+
+function classifyError(error: unknown): { status: ProbeStatus; reason: ProbeReason } {
+  if (error instanceof Deno.errors.ConnectionRefused) {
+    return { status: 'closed', reason: 'refused' };
+  }
+  if (error instanceof Error && DNS_FAILURE.test(error.message)) {
+    return { status: 'error', reason: 'dns' };
+  }
+  return { status: 'error', reason: 'function_error' };
+}
+
+export async function checkPortConnection(
+  hostname: string,
+  port: number,
+  timeout: number = 3000
+): Promise<ProbeResult> {
+  const startTime = performance.now();
+  
+  try {
+    // Use Deno.connect to attempt TCP connection
+    const conn = await Promise.race([
+      Deno.connect({ hostname, port }),
+      new Promise<never>((_, reject) => 
+        setTimeout(() => reject(new Error('Connection timeout')), timeout)
+      ),
+    ]);
+    
+    conn.close();
+    const elapsed = performance.now() - startTime;
+    
+    return {
+      open: true,
+      status: 'open',
+      reason: 'connected',
+      time_ms: Math.round(elapsed),
+      message: 'Successfully connected',
+    };
+  } catch (error) {
+    const elapsed = performance.now() - startTime;
+    const message = error instanceof Error ? error.message : String(error);
+    
+    if (message === 'Connection timeout') {
+      return {
+        open: false,
+        status: 'closed',
+        reason: 'timeout',
+        time_ms: Math.round(elapsed),
+        message: 'Connection timed out',
+      };
+    }
+    
+    return {
+      open: false,
+      ...classifyError(error),
+      time_ms: Math.round(elapsed),
+      message: `Connection error: ${message}`,
+    };
+  }
+}
+
+export interface ProbeTarget {
+  host: string;
+  port: number;
+  timeout: number;
+}
+
+// Upper bound on simultaneous TCP connects from one function invocation
+export const DEFAULT_PROBE_CONCURRENCY = 8;
+
+// Probe many targets in parallel, at most `concurrency` at a time. Results
+// come back in the same order as `targets`.
+export async function probeAll<T extends ProbeTarget>(
+  targets: T[],
+  concurrency: number = DEFAULT_PROBE_CONCURRENCY
+): Promise<ProbeResult[]> {
+  const results: ProbeResult[] = new Array(targets.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < targets.length) {
+      const index = next++;
+      const { host, port, timeout } = targets[index];
+      results[index] = await checkPortConnection(host, port, timeout);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, targets.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
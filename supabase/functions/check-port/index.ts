@@ -1,59 +1,152 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { checkPortConnection, probeAll, type ProbeResult, type ProbeTarget } from '../_shared/probe.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// EastGate brands configuration
-const BRANDS: Record<string, { host: string; default_port: number; brain_net_ip: string; live_ip: string }> = {
-  "Bareeze": { host: "barz.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.25", live_ip: "202.59.94.86" },
-  "Bareeze Men": { host: "bman.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.26", live_ip: "202.59.94.92" },
-  "Chineyere": { host: "chny.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.28", live_ip: "202.59.94.88" },
-  "Mini Minor": { host: "mmnr.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.29", live_ip: "202.59.94.87" },
-  "Rangja": { host: "rnja.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.30", live_ip: "202.59.94.91" },
-  "The Entertainer": { host: "te.eastgateindustries.com", default_port: 20000, brain_net_ip: "122.129.92.32", live_ip: "202.59.94.93" },
-};
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+);
 
-async function checkPortConnection(
-  hostname: string,
-  port: number,
-  timeout: number = 3000
-): Promise<{ open: boolean; time_ms: number; message: string }> {
-  const startTime = performance.now();
-  
-  try {
-    // Use Deno.connect to attempt TCP connection
-    const conn = await Promise.race([
-      Deno.connect({ hostname, port }),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Connection timeout')), timeout)
-      ),
-    ]);
-    
-    conn.close();
-    const elapsed = performance.now() - startTime;
-    
-    return {
-      open: true,
-      time_ms: Math.round(elapsed),
-      message: 'Successfully connected',
-    };
-  } catch (error: any) {
-    const elapsed = performance.now() - startTime;
-    
-    if (error.message === 'Connection timeout') {
-      return {
-        open: false,
-        time_ms: Math.round(elapsed),
-        message: 'Connection timed out',
-      };
+// Largest number of targets accepted in one batch request
+const MAX_BATCH_TARGETS = 100;
+
+interface CheckRequest {
+  id?: string;
+  brand: string;
+  ip?: string;
+  port: number;
+  timeout?: number;
+}
+
+interface InventoryEndpoint {
+  id: string;
+  ip: string;
+  port: number;
+}
+
+type BrandLookup = Map<string, { host: string; endpoints: InventoryEndpoint[] }>;
+
+// A probe target plus the inventory endpoint it belongs to, if any
+interface ResolvedTarget extends ProbeTarget {
+  endpointId?: string;
+}
+
+async function loadBrands(names: string[]): Promise<BrandLookup> {
+  const { data, error } = await supabase
+    .from('brands')
+    .select('name, host, endpoints(id, ip, port)')
+    .in('name', names);
+  if (error) throw error;
+
+  return new Map(
+    data.map((b: { name: string; host: string; endpoints: InventoryEndpoint[] }) => [
+      b.name,
+      { host: b.host, endpoints: b.endpoints },
+    ]),
+  );
+}
+
+// Validate one request against the inventory and turn it into a probe target
+function resolveTarget(
+  { brand, ip, port, timeout = 3 }: CheckRequest,
+  brands: BrandLookup,
+): ResolvedTarget | { error: string } {
+  // Validate brand against the inventory
+  const brandRow = brand ? brands.get(brand) : undefined;
+  if (!brandRow) {
+    return { error: 'Unknown or missing brand' };
+  }
+
+  // Only probe addresses that belong to the brand
+  if (ip && !brandRow.endpoints.some((e) => e.ip === ip)) {
+    return { error: 'IP is not registered for this brand' };
+  }
+
+  // Validate port
+  if (!port || port < 1 || port > 65535) {
+    return { error: 'Invalid port number' };
+  }
+
+  return {
+    // Use provided IP or fall back to brand host
+    host: ip || brandRow.host,
+    port,
+    // Validate timeout
+    timeout: Math.min(Math.max(timeout * 1000, 1000), 30000),
+    endpointId: brandRow.endpoints.find((e) => e.ip === ip && e.port === port)?.id,
+  };
+}
+
+// Store manual checks of inventory endpoints in the probe history. Losing a
+// history row is not worth failing the check over, so errors are only logged.
+async function recordChecks(targets: ResolvedTarget[], results: ProbeResult[]) {
+  const rows = targets.flatMap((target, i) =>
+    target.endpointId
+      ? [{
+        endpoint_id: target.endpointId,
+        status: results[i].status,
+        time_ms: results[i].time_ms,
+        reason: results[i].reason,
+        message: results[i].message,
+        source: 'manual',
+      }]
+      : []
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('port_checks').insert(rows);
+  if (error) console.error('Failed to record port checks:', error);
+}
+
+// Only signed-in users' checks go into the history. The function is open to
+// anyone, and anonymous checks would let them write rows into the reports.
+async function isSignedIn(req: Request) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!token) return false;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  return !error && data.user !== null;
+}
+
+// Whether a batch element can be read as a check request at all; its fields
+// are validated by resolveTarget
+function isTargetObject(target: unknown): target is CheckRequest {
+  return typeof target === 'object' && target !== null && !Array.isArray(target);
+}
+
+async function checkBatch(requests: CheckRequest[], record: boolean) {
+  const brands = await loadBrands([...new Set(requests.map((r) => r.brand))]);
+  const resolved = requests.map((r) => resolveTarget(r, brands));
+  const targets = resolved.filter((r): r is ResolvedTarget => !('error' in r));
+
+  console.log(`Checking ${targets.length} ports in batch`);
+  const probed = await probeAll(targets);
+  if (record) await recordChecks(targets, probed);
+
+  let probeIndex = 0;
+  return requests.map((request, i) => {
+    const target = resolved[i];
+    if ('error' in target) {
+      return { id: request.id, brand: request.brand, error: target.error };
     }
-    
+
+    const result = probed[probeIndex++];
     return {
-      open: false,
-      time_ms: Math.round(elapsed),
-      message: `Connection error: ${error.message}`,
+      id: request.id,
+      open: result.open,
+      status: result.status,
+      reason: result.reason,
+      host: target.host,
+      port: target.port,
+      time_ms: result.time_ms,
+      message: result.message,
+      brand: request.brand,
     };
-  }
+  });
 }
 
 Deno.serve(async (req) => {
@@ -63,26 +156,44 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { brand, port, timeout = 3, ip } = await req.json();
+    const body = await req.json();
+
+    // Batch mode: { targets: [{ id, brand, ip, port, timeout }, ...] }
+    if (body.targets !== undefined) {
+      if (!Array.isArray(body.targets) || body.targets.length > MAX_BATCH_TARGETS) {
+        return new Response(
+          JSON.stringify({ error: `targets must be an array of at most ${MAX_BATCH_TARGETS} items` }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      if (!body.targets.every(isTargetObject)) {
+        return new Response(
+          JSON.stringify({ error: 'Each target must be an object' }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
 
-    // Validate brand
-    if (!brand || !BRANDS[brand]) {
+      const results = await checkBatch(body.targets, await isSignedIn(req));
       return new Response(
-        JSON.stringify({ error: 'Unknown or missing brand' }),
+        JSON.stringify({ results }),
         { 
-          status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       );
     }
 
-    // Use provided IP or fall back to brand host
-    const host = ip || BRANDS[brand].host;
-
-    // Validate port
-    if (!port || port < 1 || port > 65535) {
+    const request: CheckRequest = body;
+    const target = resolveTarget(request, await loadBrands(request.brand ? [request.brand] : []));
+    if ('error' in target) {
       return new Response(
-        JSON.stringify({ error: 'Invalid port number' }),
+        JSON.stringify({ error: target.error }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -90,31 +201,31 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Validate timeout
-    const timeoutMs = Math.min(Math.max(timeout * 1000, 1000), 30000);
-
-    console.log(`Checking port: ${host}:${port} (timeout: ${timeoutMs}ms)`);
+    console.log(`Checking port: ${target.host}:${target.port} (timeout: ${target.timeout}ms)`);
 
     // Perform the actual port check
-    const result = await checkPortConnection(host, port, timeoutMs);
+    const result = await checkPortConnection(target.host, target.port, target.timeout);
+    if (await isSignedIn(req)) await recordChecks([target], [result]);
 
     return new Response(
       JSON.stringify({
         open: result.open,
-        host,
-        port,
+        status: result.status,
+        reason: result.reason,
+        host: target.host,
+        port: target.port,
         time_ms: result.time_ms,
         message: result.message,
-        brand,
+        brand: request.brand,
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error in check-port function:', error);
     return new Response(
-      JSON.stringify({ error: error.message || 'Internal server error' }),
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
       { 
         status: 500, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -0,0 +1,438 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import type { EndpointState } from './transitions.ts';
+import type { AlertChannel, AlertCondition, EscalationStep, MonitoredEndpoint, PendingAlert } from './rules.ts';
+import { contactAddresses, type Contact } from './contacts.ts';
+import type { OutageKind } from './correlation.ts';
+import type { BrandHealth } from './health.ts';
+
+// Alerts show local store time rather than the function's UTC clock
+const TIMEZONE = Deno.env.get('MONITOR_TIMEZONE') ?? 'Asia/Karachi';
+
+export const formatTime = (iso: string) => new Date(iso).toLocaleString('en-GB', { timeZone: TIMEZONE });
+
+// Length of an outage for messages, e.g. "2h 5m" or "45s"
+export const formatDowntime = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${total % 60}s`;
+  return `${total}s`;
+};
+
+export interface Delivery extends PendingAlert {
+  endpoint: MonitoredEndpoint;
+  state: EndpointState;
+  contacts: Contact[];
+  brandHealth: BrandHealth | null;
+}
+
+// Addresses used when no contact wants an endpoint's alerts on a channel
+const FALLBACK_ENV: Record<AlertChannel, string> = {
+  email: 'ALERT_EMAIL_TO',
+  whatsapp: 'WHATSAPP_ALERT_NUMBER',
+};
+
+// The contacts covering the endpoint, or the channel's fallback addresses
+const endpointRecipients = (contacts: Contact[], endpoint: MonitoredEndpoint, channel: AlertChannel) => {
+  const addresses = contactAddresses(contacts, endpoint, channel);
+  if (addresses.length > 0) return addresses;
+  return (Deno.env.get(FALLBACK_ENV[channel]) ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+};
+
+// Escalation steps name their own recipient; other alerts go to the endpoint's
+const recipientsFor = ({ step, endpoint, contacts }: Delivery, channel: AlertChannel) =>
+  step ? [step.recipient] : endpointRecipients(contacts, endpoint, channel);
+
+// Names one alert message. The send functions never send a key twice, so an
+// alert repeated by an overlapping monitor run goes out once. Closures are
+// keyed by their incident, other conditions by the endpoint and when they began.
+// The start is normalized as in firingKey, since Postgres reads it back as +00:00.
+const alertKey = ({ rule, step, round, active, endpoint, state }: Delivery, channel: AlertChannel) =>
+  [
+    state.incident_id ? `incident:${state.incident_id}` : `endpoint:${endpoint.id}`,
+    `since:${new Date(active.since).toISOString()}`,
+    `rule:${rule.id}`,
+    step ? `step:${step.id}` : 'step:none',
+    `round:${round}`,
+    channel,
+  ].join('|');
+
+// One message that went out: who to, when the channel knows, and the id the
+// channel gave it and the email subject, so later messages can reply to it. A
+// duplicate was already sent for the same key by an earlier request.
+export interface SentMessage {
+  recipient: string | null;
+  messageId: string | null;
+  subject?: string | null;
+  duplicate?: boolean;
+}
+
+// Sends one alert and returns the messages that went out
+type ChannelSender = (supabase: SupabaseClient, delivery: Delivery) => Promise<SentMessage[]>;
+
+// What send-email-alert needs to describe one endpoint's alert
+const emailDetails = ({ rule, active, endpoint, state, brandHealth }: Delivery) => ({
+  kind: active.condition,
+  // Closed while the brand still trades on its other link
+  failover: active.condition === 'closed' && brandHealth === 'failover',
+  severity: rule.severity,
+  rule: rule.name,
+  brand: endpoint.brands.name,
+  ip: endpoint.ip,
+  port: endpoint.port,
+  ipType: endpoint.role,
+  closedSince: formatTime(active.since),
+  reason: state.message ?? undefined,
+  timeMs: state.time_ms ?? undefined,
+});
+
+const sendEmail: ChannelSender = async (supabase, delivery) => {
+  const { endpoint } = delivery;
+  const to = recipientsFor(delivery, 'email');
+  if (to.length === 0) {
+    console.warn(`Nobody to email about ${endpoint.brands.name} - ${endpoint.role}; skipping email alert`);
+    return [];
+  }
+
+  const { data, error } = await supabase.functions.invoke('send-email-alert', {
+    body: { idempotencyKey: alertKey(delivery, 'email'), to, ...emailDetails(delivery) },
+  });
+  if (error) throw error;
+  return [{
+    recipient: data.to.join(', '),
+    messageId: data.messageId,
+    subject: data.subject,
+    duplicate: data.duplicate,
+  }];
+};
+
+const sendWhatsApp: ChannelSender = async (supabase, delivery) => {
+  const { active, endpoint, brandHealth } = delivery;
+  const phoneNumbers = recipientsFor(delivery, 'whatsapp');
+  if (phoneNumbers.length === 0) {
+    console.warn(`Nobody to message about ${endpoint.brands.name} - ${endpoint.role}; skipping WhatsApp alert`);
+    return [];
+  }
+
+  const sent: SentMessage[] = [];
+  for (const phoneNumber of phoneNumbers) {
+    const { data, error } = await supabase.functions.invoke('send-whatsapp-alert', {
+      body: {
+        idempotencyKey: `${alertKey(delivery, 'whatsapp')}|${phoneNumber}`,
+        kind: active.condition,
+        failover: active.condition === 'closed' && brandHealth === 'failover',
+        phoneNumber,
+        brand: endpoint.brands.name,
+        host: endpoint.ip,
+        port: String(endpoint.port),
+        ipType: endpoint.role,
+        since: formatTime(active.since),
+      },
+    });
+    if (error) throw error;
+    sent.push({ recipient: phoneNumber, messageId: data.messageId ?? null, duplicate: data.duplicate });
+  }
+  return sent;
+};
+
+export const CHANNEL_SENDERS: Record<AlertChannel, ChannelSender> = {
+  email: sendEmail,
+  whatsapp: sendWhatsApp,
+};
+
+// Hex SHA-256, so one key can name any number of alerts
+async function digest(text: string) {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Members of a group already emailed under their own key, alone or in another
+// group, by an earlier try whose group had different members
+async function loadSentEmails(supabase: SupabaseClient, keys: string[]) {
+  const { data, error } = await supabase
+    .from('alert_dispatches')
+    .select('key, message_id, recipients, subject')
+    .eq('status', 'sent')
+    .in('key', keys);
+  if (error) throw error;
+  return new Map<string, { message_id: string | null; recipients: string[]; subject: string | null }>(
+    data.map((dispatch: { key: string }) => [dispatch.key, dispatch]),
+  );
+}
+
+// Sends a group of closures as few emails as possible: everyone who covers the
+// same endpoints of the group gets one email listing all of them. Returns what
+// went out for each delivery, in order. Members already emailed are left out,
+// and each member is recorded under its own key once all its emails are sent,
+// so a retry never emails an endpoint twice even if the group has changed. If
+// any email fails the whole group fails and is tried again.
+export async function sendEmailGroup(supabase: SupabaseClient, group: Delivery[]): Promise<SentMessage[][]> {
+  const keys = new Map(group.map((delivery) => [delivery, alertKey(delivery, 'email')]));
+  const alreadySent = await loadSentEmails(supabase, [...keys.values()]);
+  const pending = group.filter((delivery) => !alreadySent.has(keys.get(delivery)!));
+
+  const recipients = pending.map((delivery) => recipientsFor(delivery, 'email'));
+  const emails = new Map<string, { members: Delivery[]; to: string[] }>();
+  for (const address of new Set(recipients.flat())) {
+    const members = pending.filter((_, i) => recipients[i].includes(address));
+    const key = members.map((delivery) => delivery.endpoint.id).join(',');
+    const email = emails.get(key) ?? { members, to: [] };
+    email.to.push(address);
+    emails.set(key, email);
+  }
+  pending.forEach(({ endpoint }, i) => {
+    if (recipients[i].length === 0) {
+      console.warn(`Nobody to email about ${endpoint.brands.name} - ${endpoint.role}; skipping email alert`);
+    }
+  });
+
+  const sent = new Map<Delivery, SentMessage[]>(group.map((delivery) => [delivery, []]));
+  for (const delivery of group) {
+    const earlier = alreadySent.get(keys.get(delivery)!);
+    if (earlier) {
+      sent.get(delivery)!.push({
+        recipient: earlier.recipients.join(', '),
+        messageId: earlier.message_id,
+        subject: earlier.subject,
+        duplicate: true,
+      });
+    }
+  }
+
+  let failure: unknown = null;
+  const failed = new Set<Delivery>();
+  for (const { members, to } of emails.values()) {
+    const memberKeys = members.map((delivery) => keys.get(delivery)!).sort();
+    const { data, error } = await supabase.functions.invoke('send-email-alert', {
+      body: {
+        idempotencyKey: `group:${await digest(memberKeys.join('\n'))}`,
+        to,
+        ...emailDetails(members[0]),
+        endpoints: members.length > 1 ? members.map(emailDetails) : undefined,
+      },
+    });
+    if (error) {
+      failure = error;
+      members.forEach((delivery) => failed.add(delivery));
+      continue;
+    }
+    for (const delivery of members) {
+      sent.get(delivery)!.push({
+        recipient: data.to.join(', '),
+        messageId: data.messageId,
+        subject: data.subject,
+        duplicate: data.duplicate,
+      });
+    }
+  }
+
+  const emailed = pending.filter((delivery) => !failed.has(delivery) && sent.get(delivery)!.length > 0);
+  if (emailed.length > 0) {
+    const { error } = await supabase.from('alert_dispatches').upsert(
+      emailed.map((delivery) => {
+        const [first] = sent.get(delivery)!;
+        return {
+          key: keys.get(delivery)!,
+          channel: 'email',
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          recipients: sent.get(delivery)!.flatMap((message) => message.recipient?.split(', ') ?? []),
+          message_id: first.messageId,
+          subject: first.subject ?? null,
+        };
+      }),
+    );
+    if (error) console.error('Sent grouped emails but failed to record them per endpoint:', error);
+  }
+
+  if (failure) throw failure;
+  return group.map((delivery) => sent.get(delivery)!);
+}
+
+export interface RecoveredIncident {
+  id: string;
+  opened_at: string;
+  resolved_at: string;
+  duration_seconds: number;
+  endpoints: { role: string; ip: string; port: number; brands: { name: string } };
+}
+
+// A recovery message for one person alerted about an incident, sent as a
+// reply to the first alert they got
+export interface Recovery {
+  incident: RecoveredIncident;
+  channel: AlertChannel;
+  recipient: string | null;
+  replyTo: string | null;
+  // Subject of the email replied to, when it was kept
+  replySubject: string | null;
+  replyToKind: AlertCondition;
+}
+
+type RecoverySender = (supabase: SupabaseClient, recovery: Recovery) => Promise<SentMessage>;
+
+const recoveryKey = ({ incident, channel, recipient }: Recovery) => `recovery|incident:${incident.id}|${channel}|${recipient}`;
+
+const sendEmailRecovery: RecoverySender = async (supabase, recovery) => {
+  const { incident, recipient, replyTo, replySubject, replyToKind } = recovery;
+  if (!recipient) throw new Error('No email address to send the recovery to');
+
+  const { endpoints: endpoint } = incident;
+  const { data, error } = await supabase.functions.invoke('send-email-alert', {
+    body: {
+      idempotencyKey: recoveryKey(recovery),
+      to: recipient.split(', '),
+      kind: 'recovered',
+      inReplyTo: replyTo ?? undefined,
+      replySubject: replySubject ?? undefined,
+      replyToKind,
+      brand: endpoint.brands.name,
+      ip: endpoint.ip,
+      port: endpoint.port,
+      ipType: endpoint.role,
+      closedSince: formatTime(incident.opened_at),
+      recoveredAt: formatTime(incident.resolved_at),
+      downtime: formatDowntime(incident.duration_seconds),
+    },
+  });
+  if (error) throw error;
+  return { recipient, messageId: data.messageId, duplicate: data.duplicate };
+};
+
+const sendWhatsAppRecovery: RecoverySender = async (supabase, recovery) => {
+  const { incident, recipient, replyTo } = recovery;
+  if (!recipient) throw new Error('No WhatsApp number to send the recovery to');
+
+  const { endpoints: endpoint } = incident;
+  const { data, error } = await supabase.functions.invoke('send-whatsapp-alert', {
+    body: {
+      idempotencyKey: recoveryKey(recovery),
+      kind: 'recovered',
+      phoneNumber: recipient,
+      replyTo: replyTo ?? undefined,
+      brand: endpoint.brands.name,
+      host: endpoint.ip,
+      port: String(endpoint.port),
+      ipType: endpoint.role,
+      since: formatTime(incident.opened_at),
+      recoveredAt: formatTime(incident.resolved_at),
+      downtime: formatDowntime(incident.duration_seconds),
+    },
+  });
+  if (error) throw error;
+  return { recipient, messageId: data.messageId ?? null, duplicate: data.duplicate };
+};
+
+export const RECOVERY_SENDERS: Record<AlertChannel, RecoverySender> = {
+  email: sendEmailRecovery,
+  whatsapp: sendWhatsAppRecovery,
+};
+
+export interface OutageNotice {
+  id: string;
+  kind: OutageKind;
+  title: string;
+  provider: string | null;
+  openedAt: string;
+  // Set once the outage is over
+  resolvedAt?: string;
+  downtimeSeconds?: number;
+  down: MonitoredEndpoint[];
+  endpointCount: number;
+}
+
+const outageDetails = (notice: OutageNotice) => ({
+  kind: notice.kind,
+  title: notice.title,
+  provider: notice.provider ?? undefined,
+  down: notice.down.length,
+  total: notice.endpointCount,
+  openedAt: formatTime(notice.openedAt),
+  resolvedAt: notice.resolvedAt ? formatTime(notice.resolvedAt) : undefined,
+  downtime: notice.downtimeSeconds !== undefined ? formatDowntime(notice.downtimeSeconds) : undefined,
+});
+
+// One outage message on one channel: an alert an outage rule fired, or the
+// recovery for someone who was alerted. Escalation steps go to their own
+// recipient, anything else to everyone covering any of the outage's endpoints.
+export interface OutageMessage {
+  channel: AlertChannel;
+  step: EscalationStep | null;
+  // Unset for recoveries
+  alert?: PendingAlert;
+}
+
+// Names one outage message, the way alertKey does for an endpoint's alerts
+const outageKey = (notice: OutageNotice, { channel, step, alert }: OutageMessage) =>
+  [
+    `outage:${notice.id}`,
+    ...(alert
+      ? [`rule:${alert.rule.id}`, step ? `step:${step.id}` : 'step:none', `round:${alert.round}`]
+      : ['resolved', ...(step ? [`step:${step.id}`] : [])]),
+    channel,
+  ].join('|');
+
+// Send one outage message: one email to all its recipients, or one WhatsApp
+// message to each number. The endpoints' own closure alerts are held back
+// while the outage lasts.
+export async function sendOutageNotice(
+  supabase: SupabaseClient,
+  notice: OutageNotice,
+  contacts: Contact[],
+  message: OutageMessage,
+) {
+  const { channel, step, alert } = message;
+  const recipients = step
+    ? [step.recipient]
+    : [...new Set(notice.down.flatMap((endpoint) => endpointRecipients(contacts, endpoint, channel)))];
+  if (recipients.length === 0) {
+    console.warn(`Nobody to notify by ${channel} about ${notice.title}; skipping outage message`);
+    return;
+  }
+
+  const kind = notice.resolvedAt ? 'recovered' : 'closed';
+  const idempotencyKey = outageKey(notice, message);
+  if (channel === 'email') {
+    const { error } = await supabase.functions.invoke('send-email-alert', {
+      body: {
+        idempotencyKey,
+        to: recipients,
+        kind,
+        severity: alert?.rule.severity,
+        rule: alert?.rule.name,
+        outage: outageDetails(notice),
+        endpoints: notice.down.map((endpoint) => ({
+          brand: endpoint.brands.name,
+          ip: endpoint.ip,
+          port: endpoint.port,
+          ipType: endpoint.role,
+          closedSince: formatTime(notice.openedAt),
+        })),
+      },
+    });
+    if (error) throw error;
+    return;
+  }
+
+  for (const phoneNumber of recipients) {
+    const { error } = await supabase.functions.invoke('send-whatsapp-alert', {
+      body: {
+        idempotencyKey: `${idempotencyKey}|${phoneNumber}`,
+        kind,
+        phoneNumber,
+        outage: {
+          ...outageDetails(notice),
+          endpoints: notice.down.map((endpoint) => `${endpoint.brands.name} - ${endpoint.role} (${endpoint.ip})`),
+        },
+      },
+    });
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,28 @@
+import type { AlertChannel, MonitoredEndpoint } from './rules.ts';
+
+export interface Contact {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  channels: AlertChannel[];
+  tags: string[];
+  contact_brands: { brand_id: string }[];
+}
+
+// A contact covers the endpoints of their brands and every endpoint carrying
+// one of their tags. A contact linked to neither covers every endpoint.
+export const coversEndpoint = (contact: Contact, endpoint: MonitoredEndpoint) => {
+  const brandIds = contact.contact_brands.map((b) => b.brand_id);
+  if (brandIds.length === 0 && contact.tags.length === 0) return true;
+  return brandIds.includes(endpoint.brand_id) || contact.tags.some((tag) => endpoint.tags.includes(tag));
+};
+
+// Where to reach everyone who wants the endpoint's alerts on the channel
+export function contactAddresses(contacts: Contact[], endpoint: MonitoredEndpoint, channel: AlertChannel) {
+  const addresses = contacts
+    .filter((contact) => contact.channels.includes(channel) && coversEndpoint(contact, endpoint))
+    .map((contact) => (channel === 'email' ? contact.email : contact.phone))
+    .filter((address): address is string => !!address);
+  return [...new Set(addresses)];
+}
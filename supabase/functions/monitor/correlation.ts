@@ -0,0 +1,93 @@
+import type { EndpointState } from './transitions.ts';
+import type { MonitoredEndpoint } from './rules.ts';
+
+export interface NetworkGroup {
+  id: string;
+  name: string;
+  provider: string | null;
+  cidr: string;
+  threshold_percent: number;
+}
+
+export type OutageKind = 'network' | 'site';
+
+// An outage the current states point to: a network group with enough of its
+// endpoints closed, or a brand with all of them closed
+export interface DetectedOutage {
+  kind: OutageKind;
+  // The network group or brand
+  targetId: string;
+  title: string;
+  provider: string | null;
+  down: MonitoredEndpoint[];
+  endpointCount: number;
+}
+
+export interface CurrentEndpoint {
+  endpoint: MonitoredEndpoint;
+  state: EndpointState;
+}
+
+const parseIPv4 = (ip: string) => {
+  const parts = ip.trim().split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((address, part) => address * 256 + Number(part), 0);
+};
+
+// Whether an IPv4 address falls inside a range such as "202.59.94.0/24".
+// Anything that is not an IPv4 address belongs to no range.
+export function inCidr(ip: string, cidr: string) {
+  const [network, bits = '32'] = cidr.split('/');
+  const address = parseIPv4(ip);
+  const base = parseIPv4(network);
+  if (address === null || base === null) return false;
+  const size = 2 ** (32 - Number(bits));
+  return Math.floor(address / size) === Math.floor(base / size);
+}
+
+// A confirmed closure; flapping and unknown endpoints do not count
+const isDown = ({ state }: CurrentEndpoint) => !!state.closed_since;
+
+// The outages the endpoints' current states add up to. A network group is
+// out when at least two of its endpoints, and its threshold share of them,
+// are closed. A brand is down when it has two or more endpoints and all of
+// them are closed, unless every one of them is already part of a network
+// outage, which is then the better explanation.
+export function detectOutages(current: CurrentEndpoint[], groups: NetworkGroup[]): DetectedOutage[] {
+  const outages: DetectedOutage[] = [];
+
+  for (const group of groups) {
+    const members = current.filter(({ endpoint }) => inCidr(endpoint.ip, group.cidr));
+    const down = members.filter(isDown);
+    if (down.length >= 2 && down.length * 100 >= members.length * group.threshold_percent) {
+      outages.push({
+        kind: 'network',
+        targetId: group.id,
+        title: group.name,
+        provider: group.provider,
+        down: down.map(({ endpoint }) => endpoint),
+        endpointCount: members.length,
+      });
+    }
+  }
+
+  const onNetworkOutage = new Set(outages.flatMap((outage) => outage.down.map((endpoint) => endpoint.id)));
+  const brands = new Map<string, CurrentEndpoint[]>();
+  for (const entry of current) {
+    brands.set(entry.endpoint.brand_id, [...(brands.get(entry.endpoint.brand_id) ?? []), entry]);
+  }
+  for (const [brandId, members] of brands) {
+    if (members.length < 2 || !members.every(isDown)) continue;
+    if (members.every(({ endpoint }) => onNetworkOutage.has(endpoint.id))) continue;
+    outages.push({
+      kind: 'site',
+      targetId: brandId,
+      title: members[0].endpoint.brands.name,
+      provider: null,
+      down: members.map(({ endpoint }) => endpoint),
+      endpointCount: members.length,
+    });
+  }
+
+  return outages;
+}
@@ -0,0 +1,42 @@
+import type { Delivery } from './channels.ts';
+
+const time = (iso: string) => new Date(iso).getTime();
+
+// Only closure emails are merged; everything else is sent on its own
+const groupable = ({ channel, active }: Delivery) => channel === 'email' && active.condition === 'closed';
+
+// Deliveries that could share one email: the same rule, escalation step and round
+const groupKey = ({ rule, step, round }: Delivery) => `${rule.id}|${step?.id ?? ''}|${round}`;
+
+// Splits the due deliveries into the messages to send now. Closures of the
+// same rule and step that begin within the window of the first one are sent
+// together. A group waits until a closure at the end of its window would be
+// due as well, so the first alert of an outage is late by at most the window.
+export function groupDeliveries(deliveries: Delivery[], now: Date, windowMs: number) {
+  const ready: Delivery[][] = [];
+  let held = 0;
+
+  const candidates = new Map<string, Delivery[]>();
+  for (const delivery of deliveries) {
+    if (!groupable(delivery)) {
+      ready.push([delivery]);
+      continue;
+    }
+    const key = groupKey(delivery);
+    candidates.set(key, [...(candidates.get(key) ?? []), delivery]);
+  }
+
+  for (const pending of candidates.values()) {
+    pending.sort((a, b) => time(a.active.since) - time(b.active.since));
+    while (pending.length > 0) {
+      const windowEnd = time(pending[0].active.since) + windowMs;
+      const outside = pending.findIndex((delivery) => time(delivery.active.since) > windowEnd);
+      const group = pending.splice(0, outside === -1 ? pending.length : outside);
+      // Every member shares the rule and step, so is due the same time after it began
+      if (now.getTime() >= time(group[0].dueAt) + windowMs) ready.push(group);
+      else held += group.length;
+    }
+  }
+
+  return { ready, held };
+}
@@ -0,0 +1,35 @@
+import type { PortStatus } from './transitions.ts';
+import type { AlertSeverity } from './rules.ts';
+import type { CurrentEndpoint } from './correlation.ts';
+
+// How a brand is doing as a whole. A brand with one link closed and another
+// still open keeps trading on the backup path, which is worth fixing soon but
+// is not the emergency a brand with every link closed is. The dashboard works
+// it out the same way in src/lib/brand-health.ts; keep the two in step.
+export type BrandHealth = 'healthy' | 'failover' | 'down';
+
+const isUp = (status: PortStatus) => status === 'open' || status === 'degraded';
+
+// Null while none of the brand's endpoints has a definite result
+export function brandHealth(statuses: PortStatus[]): BrandHealth | null {
+  const closed = statuses.filter((status) => status === 'closed').length;
+  const up = statuses.filter(isUp).length;
+  if (closed === 0) return up > 0 ? 'healthy' : null;
+  return up > 0 ? 'failover' : 'down';
+}
+
+// Each brand's health from its endpoints' current states. Endpoints under
+// maintenance are left out: a link being worked on is no backup, and its
+// closure is no emergency.
+export function brandHealthById(current: CurrentEndpoint[], inMaintenance: Set<string>) {
+  const statuses = new Map<string, PortStatus[]>();
+  for (const { endpoint, state } of current) {
+    if (inMaintenance.has(endpoint.id)) continue;
+    statuses.set(endpoint.brand_id, [...(statuses.get(endpoint.brand_id) ?? []), state.status]);
+  }
+  return new Map([...statuses].map(([brandId, brandStatuses]) => [brandId, brandHealth(brandStatuses)]));
+}
+
+// A closure while the brand still has a working link is a warning at most
+export const failoverSeverity = (severity: AlertSeverity): AlertSeverity =>
+  severity === 'critical' ? 'warning' : severity;
@@ -0,0 +1,718 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { probeAll } from '../_shared/probe.ts';
+import { evaluateProbe, type EndpointState } from './transitions.ts';
+import type { Contact } from './contacts.ts';
+import {
+  activeCondition,
+  dueAlerts,
+  dueOutageAlerts,
+  firingKey,
+  type AlertChannel,
+  type AlertCondition,
+  type AlertRule,
+  type EscalationStep,
+  type MonitoredEndpoint,
+  type PendingAlert,
+} from './rules.ts';
+import {
+  CHANNEL_SENDERS,
+  RECOVERY_SENDERS,
+  sendEmailGroup,
+  sendOutageNotice,
+  type Delivery,
+  type OutageMessage,
+  type OutageNotice,
+  type RecoveredIncident,
+  type SentMessage,
+} from './channels.ts';
+import { groupDeliveries } from './grouping.ts';
+import {
+  detectOutages,
+  type CurrentEndpoint,
+  type DetectedOutage,
+  type NetworkGroup,
+  type OutageKind,
+} from './correlation.ts';
+import { brandHealthById, failoverSeverity } from './health.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, SERVICE_ROLE_KEY);
+
+// Cron ticks are not exact, so treat endpoints due within this margin as due
+const SCHEDULE_SLACK_MS = 2000;
+
+// A recovery message that fails to send is retried for this long after the
+// incident resolves
+const RECOVERY_RETRY_MS = 15 * 60 * 1000;
+
+// Closure emails for endpoints that close within this long of each other are
+// merged into one, e.g. when an upstream link takes several brands down at once
+const GROUP_WINDOW_MS = Number(Deno.env.get('ALERT_GROUP_WINDOW_SECONDS') ?? 60) * 1000;
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+const isDue = (endpoint: MonitoredEndpoint, state: EndpointState | undefined, now: Date) => {
+  if (!state?.last_checked_at) return true;
+  const elapsed = now.getTime() - new Date(state.last_checked_at).getTime();
+  return elapsed >= endpoint.interval_seconds * 1000 - SCHEDULE_SLACK_MS;
+};
+
+interface NotificationRecord {
+  incident_id: string;
+  channel: string;
+  kind: string;
+  recipient: string | null;
+  rule_id?: string;
+  step_id?: string | null;
+  round?: number | null;
+  message_id?: string | null;
+  subject?: string | null;
+}
+
+async function recordNotification(notification: NotificationRecord) {
+  const { error } = await supabase.from('incident_notifications').insert(notification);
+  if (error) console.error('Failed to record notification:', error);
+}
+
+// Open an incident when an endpoint's closure is confirmed and resolve it once
+// the closure clears. Flapping does not affect incidents, only alerts.
+async function syncIncident(previous: EndpointState | undefined, state: EndpointState) {
+  const wasClosed = !!previous?.closed_since;
+  const isClosed = !!state.closed_since;
+
+  if (isClosed && !wasClosed) {
+    // Reuse an incident left open by a cycle that failed before saving its state
+    const { data: open, error: openError } = await supabase
+      .from('incidents')
+      .select('id')
+      .eq('endpoint_id', state.endpoint_id)
+      .is('resolved_at', null)
+      .maybeSingle();
+    if (openError) throw openError;
+    if (open) {
+      state.incident_id = open.id;
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('incidents')
+      .insert({ endpoint_id: state.endpoint_id, opened_at: state.closed_since })
+      .select('id')
+      .single();
+    if (error) throw error;
+    state.incident_id = data.id;
+  } else if (!isClosed && wasClosed) {
+    const { error } = await supabase
+      .from('incidents')
+      .update({ resolved_at: state.opened_at })
+      .eq('endpoint_id', state.endpoint_id)
+      .is('resolved_at', null);
+    if (error) throw error;
+    state.incident_id = null;
+  }
+}
+
+async function loadAlertRules() {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select(
+      'id, name, condition, duration_seconds, endpoint_id, tag, severity, channels, escalation_policies(repeat_every_minutes, escalation_steps(id, delay_minutes, channel, recipient))',
+    )
+    .eq('enabled', true)
+    .returns<AlertRule[]>();
+  if (error) throw error;
+  return data;
+}
+
+async function loadContacts() {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('id, name, email, phone, channels, tags, contact_brands(brand_id)')
+    .eq('enabled', true)
+    .returns<Contact[]>();
+  if (error) throw error;
+  return data;
+}
+
+// What the rules have already sent for the endpoints' current conditions
+async function loadFirings(states: EndpointState[]) {
+  const active = states.flatMap((state) => {
+    const condition = activeCondition(state);
+    return condition ? [{ endpointId: state.endpoint_id, since: condition.since }] : [];
+  });
+  if (active.length === 0) return new Set<string>();
+
+  const oldest = new Date(Math.min(...active.map((a) => new Date(a.since).getTime()))).toISOString();
+  const { data, error } = await supabase
+    .from('alert_firings')
+    .select('rule_id, endpoint_id, condition_since, channel, step_id, round')
+    .in('endpoint_id', active.map((a) => a.endpointId))
+    .gte('condition_since', oldest);
+  if (error) throw error;
+
+  return new Set(
+    data.map((f) => firingKey(f.rule_id, f.endpoint_id, f.condition_since, f.channel, f.step_id, f.round)),
+  );
+}
+
+// The incidents someone has acknowledged, which stops their escalation
+async function loadAcknowledged(states: EndpointState[]) {
+  const incidentIds = states.flatMap((state) => (state.incident_id ? [state.incident_id] : []));
+  if (incidentIds.length === 0) return new Set<string>();
+
+  const { data, error } = await supabase
+    .from('incidents')
+    .select('id')
+    .in('id', incidentIds)
+    .not('acknowledged_at', 'is', null);
+  if (error) throw error;
+  return new Set(data.map((incident) => incident.id));
+}
+
+// Remember that an alert went out, and to whom
+async function recordDelivery(delivery: Delivery, sent: SentMessage[]) {
+  const { rule, channel, active, step, round, endpoint, state } = delivery;
+  const { error } = await supabase
+    .from('alert_firings')
+    .insert({
+      rule_id: rule.id,
+      endpoint_id: endpoint.id,
+      condition_since: active.since,
+      channel,
+      step_id: step?.id ?? null,
+      round,
+    });
+  // An overlapping run may have recorded the same firing already
+  if (error && error.code !== UNIQUE_VIOLATION) console.error('Failed to record alert firing:', error);
+
+  if (state.incident_id) {
+    // Duplicates were recorded by whichever run sent them
+    for (const message of sent.filter((m) => !m.duplicate)) {
+      await recordNotification({
+        incident_id: state.incident_id,
+        channel,
+        kind: active.condition,
+        recipient: message.recipient,
+        rule_id: rule.id,
+        step_id: step?.id ?? null,
+        round: step ? round : null,
+        message_id: message.messageId,
+        subject: message.subject ?? null,
+      });
+    }
+  }
+}
+
+// Send one alert, or one group of closures, and remember it went out. A
+// failed send is not recorded, so the rule tries again on the next cycle.
+// Every try uses the same idempotency key, so the send functions deliver it
+// only once. Returns how many deliveries were sent.
+async function deliver(group: Delivery[]) {
+  const [{ rule, channel }] = group;
+  const label = group.map(({ endpoint }) => `${endpoint.brands.name} - ${endpoint.role}`).join(', ');
+  let sent: SentMessage[][];
+  try {
+    sent = group.length > 1
+      ? await sendEmailGroup(supabase, group)
+      : [await CHANNEL_SENDERS[channel](supabase, group[0])];
+  } catch (error) {
+    console.error(`${rule.name} (${channel}) failed for ${label}:`, error);
+    return 0;
+  }
+
+  for (const [i, delivery] of group.entries()) {
+    await recordDelivery(delivery, sent[i]);
+  }
+  return group.length;
+}
+
+// Endpoints inside a maintenance window right now, one-off or recurring
+async function loadMaintenance() {
+  const { data, error } = await supabase.rpc('endpoints_in_maintenance');
+  if (error) throw error;
+  return new Set<string>(data);
+}
+
+async function loadNetworkGroups() {
+  const { data, error } = await supabase
+    .from('network_groups')
+    .select('id, name, provider, cidr, threshold_percent')
+    .eq('enabled', true)
+    .returns<NetworkGroup[]>();
+  if (error) throw error;
+  return data;
+}
+
+interface OpenOutage {
+  id: string;
+  kind: OutageKind;
+  network_group_id: string | null;
+  brand_id: string | null;
+  title: string;
+  opened_at: string;
+  peak_down: number;
+  alerted_at: string | null;
+  acknowledged_at: string | null;
+}
+
+const OUTAGE_COLUMNS = 'id, kind, network_group_id, brand_id, title, opened_at, peak_down, alerted_at, acknowledged_at';
+
+const outageTarget = (outage: OpenOutage) => outage.network_group_id ?? outage.brand_id;
+
+interface ActiveOutage {
+  outage: OpenOutage;
+  detected: DetectedOutage;
+}
+
+// Open an outage for every network group or brand the current states show
+// as down, link the endpoints' incidents to it and resolve outages that have
+// cleared. Returns the open outages with the endpoints they cover.
+async function syncOutages(current: CurrentEndpoint[], groups: NetworkGroup[]): Promise<ActiveOutage[]> {
+  const { data: open, error } = await supabase
+    .from('outages')
+    .select(OUTAGE_COLUMNS)
+    .is('resolved_at', null)
+    .returns<OpenOutage[]>();
+  if (error) throw error;
+
+  const active: ActiveOutage[] = [];
+  for (const detected of detectOutages(current, groups)) {
+    let outage = open.find((o) => o.kind === detected.kind && outageTarget(o) === detected.targetId);
+    if (!outage) {
+      const { data, error: insertError } = await supabase
+        .from('outages')
+        .insert({
+          kind: detected.kind,
+          network_group_id: detected.kind === 'network' ? detected.targetId : null,
+          brand_id: detected.kind === 'site' ? detected.targetId : null,
+          title: detected.title,
+          peak_down: detected.down.length,
+          endpoint_count: detected.endpointCount,
+        })
+        .select(OUTAGE_COLUMNS)
+        .returns<OpenOutage[]>()
+        .single();
+      // An overlapping run opened it first; it is picked up on the next cycle
+      if (insertError?.code === UNIQUE_VIOLATION) continue;
+      if (insertError) throw insertError;
+      outage = data;
+      console.warn(`${detected.kind === 'network' ? 'ISP outage' : 'Site down'}: ${detected.title} (${detected.down.length} of ${detected.endpointCount} closed)`);
+    } else if (detected.down.length > outage.peak_down) {
+      const { error: updateError } = await supabase
+        .from('outages')
+        .update({ peak_down: detected.down.length, endpoint_count: detected.endpointCount })
+        .eq('id', outage.id);
+      if (updateError) console.error('Failed to update outage:', updateError);
+    }
+
+    const incidentIds = current
+      .filter(({ endpoint, state }) => state.incident_id && detected.down.some((d) => d.id === endpoint.id))
+      .map(({ state }) => state.incident_id!);
+    if (incidentIds.length > 0) {
+      const { error: linkError } = await supabase
+        .from('incidents')
+        .update({ outage_id: outage.id })
+        .in('id', incidentIds)
+        .is('outage_id', null);
+      if (linkError) console.error('Failed to link incidents to outage:', linkError);
+    }
+    active.push({ outage, detected });
+  }
+
+  const cleared = open.filter((o) => !active.some(({ outage }) => outage.id === o.id));
+  if (cleared.length > 0) {
+    const { error: resolveError } = await supabase
+      .from('outages')
+      .update({ resolved_at: new Date().toISOString() })
+      .in('id', cleared.map((o) => o.id));
+    if (resolveError) throw resolveError;
+    for (const outage of cleared) console.log(`Outage over: ${outage.title}`);
+  }
+
+  return active;
+}
+
+interface ResolvedOutage extends OpenOutage {
+  resolved_at: string;
+  duration_seconds: number;
+  endpoint_count: number;
+  network_groups: { provider: string | null } | null;
+  incidents: { endpoints: MonitoredEndpoint }[];
+  alert_firings: { channel: AlertChannel; escalation_steps: EscalationStep | null }[];
+}
+
+async function markOutage(id: string, column: 'alerted_at' | 'recovery_sent_at') {
+  const { error } = await supabase.from('outages').update({ [column]: new Date().toISOString() }).eq('id', id);
+  if (error) console.error(`Failed to record outage ${column}:`, error);
+}
+
+// What the outage rules have already sent for the open outages
+async function loadOutageFirings(active: ActiveOutage[]) {
+  if (active.length === 0) return new Set<string>();
+
+  const { data, error } = await supabase
+    .from('alert_firings')
+    .select('rule_id, outage_id, condition_since, channel, step_id, round')
+    .in('outage_id', active.map(({ outage }) => outage.id));
+  if (error) throw error;
+
+  return new Set(
+    data.map((f) => firingKey(f.rule_id, f.outage_id, f.condition_since, f.channel, f.step_id, f.round)),
+  );
+}
+
+async function recordOutageFiring(outage: OpenOutage, { rule, channel, step, round }: PendingAlert) {
+  const { error } = await supabase
+    .from('alert_firings')
+    .insert({
+      rule_id: rule.id,
+      outage_id: outage.id,
+      condition_since: outage.opened_at,
+      channel,
+      step_id: step?.id ?? null,
+      round,
+    });
+  // An overlapping run may have recorded the same firing already
+  if (error && error.code !== UNIQUE_VIOLATION) console.error('Failed to record outage firing:', error);
+}
+
+// Send whatever the outage rules have due for the open outages, and tell
+// everyone alerted about an outage when it is over. Failed sends are tried
+// again on the next cycle.
+async function sendOutageNotices(active: ActiveOutage[], rules: AlertRule[], contacts: Contact[], now: Date) {
+  let sent = 0;
+  const fired = await loadOutageFirings(active);
+  for (const { outage, detected } of active) {
+    const notice: OutageNotice = {
+      id: outage.id,
+      kind: outage.kind,
+      title: outage.title,
+      provider: detected.provider,
+      openedAt: outage.opened_at,
+      down: detected.down,
+      endpointCount: detected.endpointCount,
+    };
+    const acknowledged = !!outage.acknowledged_at;
+    for (const alert of dueOutageAlerts(rules, outage.id, outage.opened_at, detected.down, fired, now, acknowledged)) {
+      try {
+        await sendOutageNotice(supabase, notice, contacts, { channel: alert.channel, step: alert.step, alert });
+      } catch (error) {
+        console.error(`${alert.rule.name} (${alert.channel}) failed for ${outage.title}:`, error);
+        continue;
+      }
+      await recordOutageFiring(outage, alert);
+      if (!outage.alerted_at) {
+        await markOutage(outage.id, 'alerted_at');
+        outage.alerted_at = now.toISOString();
+      }
+      sent++;
+    }
+  }
+
+  const { data: resolved, error } = await supabase
+    .from('outages')
+    .select(
+      `${OUTAGE_COLUMNS}, resolved_at, duration_seconds, endpoint_count, network_groups(provider), incidents(endpoints(id, brand_id, role, ip, port, tags, brands(name))), alert_firings(channel, escalation_steps(id, delay_minutes, channel, recipient))`,
+    )
+    .not('alerted_at', 'is', null)
+    .is('recovery_sent_at', null)
+    .gte('resolved_at', new Date(now.getTime() - RECOVERY_RETRY_MS).toISOString())
+    .returns<ResolvedOutage[]>();
+  if (error) throw error;
+
+  for (const outage of resolved) {
+    const notice: OutageNotice = {
+      id: outage.id,
+      kind: outage.kind,
+      title: outage.title,
+      provider: outage.network_groups?.provider ?? null,
+      openedAt: outage.opened_at,
+      resolvedAt: outage.resolved_at,
+      downtimeSeconds: outage.duration_seconds,
+      down: outage.incidents.map((incident) => incident.endpoints),
+      endpointCount: outage.endpoint_count,
+    };
+    // One recovery for every channel and escalation step that alerted
+    const messages = new Map<string, OutageMessage>();
+    for (const { channel, escalation_steps: step } of outage.alert_firings) {
+      messages.set(`${channel}|${step?.id ?? ''}`, { channel, step });
+    }
+    try {
+      for (const message of messages.values()) {
+        await sendOutageNotice(supabase, notice, contacts, message);
+      }
+      await markOutage(outage.id, 'recovery_sent_at');
+      sent++;
+    } catch (error) {
+      console.error(`Outage recovery for ${outage.title} failed:`, error);
+    }
+  }
+  return sent;
+}
+
+interface SentNotification {
+  channel: AlertChannel;
+  kind: AlertCondition | 'recovered';
+  recipient: string | null;
+  message_id: string | null;
+  subject: string | null;
+}
+
+// Tell everyone alerted about a recently resolved incident that it is over,
+// replying to the first alert each of them got. Anyone already sent a recovery
+// is skipped, so a failed send is simply tried again on the next cycle.
+async function sendRecoveries() {
+  const { data: incidents, error } = await supabase
+    .from('incidents')
+    .select(
+      'id, opened_at, resolved_at, duration_seconds, endpoints(role, ip, port, brands(name)), incident_notifications(channel, kind, recipient, message_id, subject)',
+    )
+    .gte('resolved_at', new Date(Date.now() - RECOVERY_RETRY_MS).toISOString())
+    .order('sent_at', { referencedTable: 'incident_notifications' })
+    .returns<(RecoveredIncident & { incident_notifications: SentNotification[] })[]>();
+  if (error) throw error;
+
+  let sent = 0;
+  for (const incident of incidents) {
+    const recipientKey = (n: SentNotification) => `${n.channel}|${n.recipient}`;
+    const recovered = new Set(
+      incident.incident_notifications.filter((n) => n.kind === 'recovered').map(recipientKey),
+    );
+    const firstAlerts = new Map<string, SentNotification>();
+    for (const notification of incident.incident_notifications) {
+      const key = recipientKey(notification);
+      if (notification.kind !== 'recovered' && !recovered.has(key) && !firstAlerts.has(key)) {
+        firstAlerts.set(key, notification);
+      }
+    }
+
+    for (const alert of firstAlerts.values()) {
+      try {
+        const message = await RECOVERY_SENDERS[alert.channel](supabase, {
+          incident,
+          channel: alert.channel,
+          recipient: alert.recipient,
+          replyTo: alert.message_id,
+          replySubject: alert.subject,
+          replyToKind: alert.kind as AlertCondition,
+        });
+        if (message.duplicate) continue;
+        await recordNotification({
+          incident_id: incident.id,
+          channel: alert.channel,
+          kind: 'recovered',
+          recipient: alert.recipient,
+          message_id: message.messageId,
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Recovery (${alert.channel}) to ${alert.recipient ?? 'default recipients'} failed:`, error);
+      }
+    }
+  }
+  return sent;
+}
+
+// Probe every due endpoint concurrently, store the new states, then run the alert rules
+async function runCycle() {
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from('endpoints')
+    .select(
+      'id, brand_id, role, ip, port, timeout_seconds, interval_seconds, fail_threshold, recover_threshold, flap_window_seconds, flap_threshold, degraded_ms, tags, brands(name)',
+    )
+    .eq('enabled', true)
+    .returns<MonitoredEndpoint[]>();
+  if (endpointsError) throw endpointsError;
+
+  const { data: states, error: statesError } = await supabase
+    .from('endpoint_states')
+    .select('*')
+    .returns<EndpointState[]>();
+  if (statesError) throw statesError;
+
+  const stateById = new Map(states.map((s) => [s.endpoint_id, s]));
+  const due = endpoints.filter((e) => isDue(e, stateById.get(e.id), new Date()));
+
+  const summary = {
+    checked: 0,
+    closed: 0,
+    recovered: 0,
+    errors: 0,
+    flapping: 0,
+    degraded: 0,
+    alerted: 0,
+    alertsHeld: 0,
+    recoveriesSent: 0,
+    inMaintenance: 0,
+    outages: 0,
+    brandsOnBackup: 0,
+    outageNoticesSent: 0,
+  };
+  const checked: { endpoint: MonitoredEndpoint; state: EndpointState }[] = [];
+
+  const results = await probeAll(
+    due.map((e) => ({ host: e.ip, port: e.port, timeout: e.timeout_seconds * 1000 })),
+  );
+
+  // Keep the raw results as history before folding them into the states
+  if (due.length > 0) {
+    const { error: historyError } = await supabase.from('port_checks').insert(
+      due.map((endpoint, i) => ({
+        endpoint_id: endpoint.id,
+        status: results[i].status,
+        time_ms: results[i].time_ms,
+        reason: results[i].reason,
+        message: results[i].message,
+        source: 'monitor',
+      })),
+    );
+    if (historyError) console.error('Failed to record port checks:', historyError);
+  }
+
+  for (const [i, endpoint] of due.entries()) {
+    const result = results[i];
+    const previous = stateById.get(endpoint.id);
+    const evaluation = evaluateProbe(endpoint.id, previous, result, endpoint, new Date());
+    const { state } = evaluation;
+    await syncIncident(previous, state);
+    const label = `${endpoint.brands.name} - ${endpoint.role}`;
+
+    if (evaluation.closed) {
+      console.log(`${label} PORT CLOSED: ${result.message}`);
+      summary.closed++;
+    }
+    if (evaluation.recovered) {
+      console.log(`${label} recovered`);
+      summary.recovered++;
+    }
+    if (evaluation.errored) {
+      console.warn(`${label} probe failed (${result.reason}): ${result.message}`);
+      summary.errors++;
+    }
+    if (evaluation.flapStarted) {
+      console.warn(`${label} is flapping (${state.transitions.length} transitions)`);
+      summary.flapping++;
+    }
+    if (evaluation.flapEnded) {
+      console.log(`${label} stopped flapping`);
+    }
+    if (evaluation.degradedStarted) {
+      console.warn(`${label} degraded: ${result.time_ms}ms to connect`);
+      summary.degraded++;
+    }
+
+    const { error: upsertError } = await supabase.from('endpoint_states').upsert(state);
+    if (upsertError) throw upsertError;
+    checked.push({ endpoint, state });
+    summary.checked++;
+  }
+
+  // Alerts are worked out for every endpoint, not only those checked this
+  // cycle, so closures held for grouping are all released together
+  const checkedIds = new Set(checked.map((c) => c.endpoint.id));
+  const current: CurrentEndpoint[] = [
+    ...checked,
+    ...endpoints.flatMap((endpoint) => {
+      const state = stateById.get(endpoint.id);
+      return state && !checkedIds.has(endpoint.id) ? [{ endpoint, state }] : [];
+    }),
+  ];
+
+  // Endpoints under maintenance are still checked, but raise no alerts and
+  // count towards no outage. Anything still wrong when the window ends is
+  // alerted about then. Their incidents' webhooks are held back by the
+  // database triggers that queue them.
+  const inMaintenance = await loadMaintenance();
+  summary.inMaintenance = inMaintenance.size;
+
+  // Closures explained by an ISP outage or a site going down are announced
+  // once for the whole outage, by the outage rules, instead of endpoint by
+  // endpoint
+  const outages = await syncOutages(
+    current.filter(({ endpoint }) => !inMaintenance.has(endpoint.id)),
+    await loadNetworkGroups(),
+  );
+  const onOutage = new Set(outages.flatMap(({ detected }) => detected.down.map((endpoint) => endpoint.id)));
+  summary.outages = outages.length;
+
+  const rules = await loadAlertRules();
+  const fired = await loadFirings(current.map((c) => c.state));
+  const acknowledged = await loadAcknowledged(current.map((c) => c.state));
+  const contacts = await loadContacts();
+  const now = new Date();
+  // A brand still trading on its backup link gets its closures at warning level
+  const health = brandHealthById(current, inMaintenance);
+  summary.brandsOnBackup = [...health.values()].filter((brandHealth) => brandHealth === 'failover').length;
+  const deliveries = current.flatMap(({ endpoint, state }) => {
+    if (inMaintenance.has(endpoint.id)) return [];
+    const isAcknowledged = !!state.incident_id && acknowledged.has(state.incident_id);
+    const brandHealth = health.get(endpoint.brand_id) ?? null;
+    return dueAlerts(rules, endpoint, state, fired, now, isAcknowledged)
+      .filter((alert) => !(alert.active.condition === 'closed' && onOutage.has(endpoint.id)))
+      .map((alert): Delivery => ({
+        ...alert,
+        rule: alert.active.condition === 'closed' && brandHealth === 'failover'
+          ? { ...alert.rule, severity: failoverSeverity(alert.rule.severity) }
+          : alert.rule,
+        endpoint,
+        state,
+        contacts,
+        brandHealth,
+      }));
+  });
+  const { ready, held } = groupDeliveries(deliveries, now, GROUP_WINDOW_MS);
+  summary.alertsHeld = held;
+  for (const group of ready) {
+    summary.alerted += await deliver(group);
+  }
+  summary.recoveriesSent = await sendRecoveries();
+  summary.outageNoticesSent = await sendOutageNotices(outages, rules, contacts, now);
+
+  // Incident changes queue their webhooks in the database; send whatever is due
+  const { error: webhooksError } = await supabase.functions.invoke('send-webhooks');
+  if (webhooksError) console.error('Failed to send webhooks:', webhooksError);
+
+  return summary;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the cron job runs cycles, with the service role key. The anon key also
+  // passes the JWT check, and would let anyone trigger probes and alerts.
+  if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(
+      JSON.stringify({ error: 'Only the scheduler may run the monitor' }),
+      { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const summary = await runCycle();
+    console.log('Monitor cycle complete:', summary);
+
+    return new Response(
+      JSON.stringify(summary),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in monitor function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
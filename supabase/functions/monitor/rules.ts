@@ -0,0 +1,187 @@
+import type { EndpointState, EvaluationSettings } from './transitions.ts';
+
+export type AlertCondition = 'closed' | 'degraded' | 'flapping' | 'error' | 'outage';
+export type AlertChannel = 'email' | 'whatsapp';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface MonitoredEndpoint extends EvaluationSettings {
+  id: string;
+  brand_id: string;
+  role: string;
+  ip: string;
+  port: number;
+  timeout_seconds: number;
+  interval_seconds: number;
+  tags: string[];
+  brands: { name: string };
+}
+
+export interface EscalationStep {
+  id: string;
+  delay_minutes: number;
+  channel: AlertChannel;
+  recipient: string;
+}
+
+export interface EscalationPolicy {
+  repeat_every_minutes: number | null;
+  escalation_steps: EscalationStep[];
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  duration_seconds: number;
+  endpoint_id: string | null;
+  tag: string | null;
+  severity: AlertSeverity;
+  channels: AlertChannel[];
+  escalation_policies: EscalationPolicy | null;
+}
+
+export interface ActiveCondition {
+  condition: AlertCondition;
+  since: string;
+}
+
+export interface PendingAlert {
+  rule: AlertRule;
+  channel: AlertChannel;
+  active: ActiveCondition;
+  // Set for escalation steps, which go to their own recipient
+  step: EscalationStep | null;
+  round: number;
+  // When the rule, step or round became due
+  dueAt: string;
+}
+
+// The alertable condition an endpoint is in, if any. Only the current status
+// counts, so a closure stops alerting while the endpoint is flapping.
+export function activeCondition(state: EndpointState): ActiveCondition | null {
+  switch (state.status) {
+    case 'closed':
+      return { condition: 'closed', since: state.closed_since! };
+    case 'degraded':
+      return { condition: 'degraded', since: state.degraded_since! };
+    case 'flapping':
+      return { condition: 'flapping', since: state.flapping_since! };
+    case 'error':
+      return { condition: 'error', since: state.error_since! };
+    default:
+      return null;
+  }
+}
+
+export const ruleApplies = (rule: AlertRule, endpoint: MonitoredEndpoint) => {
+  if (rule.endpoint_id) return rule.endpoint_id === endpoint.id;
+  if (rule.tag) return endpoint.tags.includes(rule.tag);
+  return true;
+};
+
+// Conditions that can be acknowledged, an incident for a closure and the
+// outage itself for an outage. Only these escalate, until acknowledged.
+const ESCALATING_CONDITIONS: AlertCondition[] = ['closed', 'outage'];
+
+// Identifies one delivery: a rule, on one channel or escalation step and round,
+// for one stretch of time an endpoint spent in the rule's condition, or for
+// one outage
+export const firingKey = (
+  ruleId: string,
+  targetId: string,
+  since: string,
+  channel: string,
+  stepId: string | null,
+  round: number,
+) => `${ruleId}|${targetId}|${new Date(since).toISOString()}|${channel}|${stepId ?? ''}|${round}`;
+
+// The escalation steps due after the given time in the condition. Each step
+// fires at its delay and, if the policy repeats, again every repeat period;
+// only the latest round is returned, so a missed round is not sent late.
+function dueSteps(policy: EscalationPolicy, elapsedSeconds: number) {
+  return policy.escalation_steps
+    .filter((step) => elapsedSeconds >= step.delay_minutes * 60)
+    .map((step) => {
+      const sinceStep = elapsedSeconds - step.delay_minutes * 60;
+      const round = policy.repeat_every_minutes ? Math.floor(sinceStep / (policy.repeat_every_minutes * 60)) : 0;
+      const dueAfterSeconds = step.delay_minutes * 60 + round * (policy.repeat_every_minutes ?? 0) * 60;
+      return { step, round, dueAfterSeconds };
+    });
+}
+
+// Every channel and escalation step of the rules that is due for a condition
+// and has not fired yet for it. Escalation stops once the condition has been
+// acknowledged.
+function pendingAlerts(
+  rules: AlertRule[],
+  active: ActiveCondition,
+  targetId: string,
+  fired: Set<string>,
+  now: Date,
+  acknowledged: boolean,
+): PendingAlert[] {
+  const sinceMs = new Date(active.since).getTime();
+  const elapsedSeconds = (now.getTime() - sinceMs) / 1000;
+  const dueAt = (seconds: number) => new Date(sinceMs + seconds * 1000).toISOString();
+  const escalates = ESCALATING_CONDITIONS.includes(active.condition) && !acknowledged;
+  return rules
+    .filter((rule) => elapsedSeconds >= rule.duration_seconds)
+    .flatMap((rule): PendingAlert[] => [
+      ...rule.channels.map((channel) => ({
+        rule,
+        channel,
+        active,
+        step: null,
+        round: 0,
+        dueAt: dueAt(rule.duration_seconds),
+      })),
+      ...(rule.escalation_policies && escalates
+        ? dueSteps(rule.escalation_policies, elapsedSeconds).map(({ step, round, dueAfterSeconds }) => ({
+          rule,
+          channel: step.channel,
+          active,
+          step,
+          round,
+          dueAt: dueAt(dueAfterSeconds),
+        }))
+        : []),
+    ])
+    .filter(({ rule, channel, step, round }) =>
+      !fired.has(firingKey(rule.id, targetId, active.since, channel, step?.id ?? null, round))
+    );
+}
+
+// Every rule channel and escalation step that should fire for the endpoint now
+// and has not already fired for its current condition. Only closures escalate,
+// as only they have an incident to acknowledge.
+export function dueAlerts(
+  rules: AlertRule[],
+  endpoint: MonitoredEndpoint,
+  state: EndpointState,
+  fired: Set<string>,
+  now: Date,
+  acknowledged: boolean,
+): PendingAlert[] {
+  const active = activeCondition(state);
+  if (!active) return [];
+
+  const matching = rules.filter((rule) => rule.condition === active.condition && ruleApplies(rule, endpoint));
+  return pendingAlerts(matching, active, endpoint.id, fired, now, acknowledged);
+}
+
+// The same for an ISP outage or site down, from the outage rules that cover
+// any of the endpoints it took down
+export function dueOutageAlerts(
+  rules: AlertRule[],
+  outageId: string,
+  openedAt: string,
+  down: MonitoredEndpoint[],
+  fired: Set<string>,
+  now: Date,
+  acknowledged: boolean,
+): PendingAlert[] {
+  const matching = rules.filter((rule) =>
+    rule.condition === 'outage' && down.some((endpoint) => ruleApplies(rule, endpoint))
+  );
+  return pendingAlerts(matching, { condition: 'outage', since: openedAt }, outageId, fired, now, acknowledged);
+}
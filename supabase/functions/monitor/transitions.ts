@@ -0,0 +1,177 @@
+import type { ProbeReason, ProbeResult } from '../_shared/probe.ts';
+
+export type PortStatus = 'idle' | 'open' | 'degraded' | 'closed' | 'error' | 'flapping';
+
+export interface EndpointState {
+  endpoint_id: string;
+  status: PortStatus;
+  reason: ProbeReason | null;
+  time_ms: number | null;
+  message: string | null;
+  last_checked_at: string | null;
+  consecutive_failures: number;
+  consecutive_successes: number;
+  // First failure of the current streak, before it is confirmed
+  failing_since: string | null;
+  // Set while the endpoint is confirmed closed
+  closed_since: string | null;
+  opened_at: string | null;
+  error_since: string | null;
+  // Confirmed closed/recovered transitions inside the flap window
+  transitions: string[];
+  flapping_since: string | null;
+  degraded_since: string | null;
+  // Open incident for the current closure, managed by the monitor
+  incident_id: string | null;
+}
+
+export interface EvaluationSettings {
+  fail_threshold: number;
+  recover_threshold: number;
+  flap_window_seconds: number;
+  flap_threshold: number;
+  degraded_ms: number | null;
+}
+
+export interface Evaluation {
+  state: EndpointState;
+  closed: boolean;
+  recovered: boolean;
+  errored: boolean;
+  flapStarted: boolean;
+  flapEnded: boolean;
+  degradedStarted: boolean;
+  degradedEnded: boolean;
+}
+
+const elapsedSince = (iso: string, now: Date) => now.getTime() - new Date(iso).getTime();
+
+export const initialState = (endpointId: string): EndpointState => ({
+  endpoint_id: endpointId,
+  status: 'idle',
+  reason: null,
+  time_ms: null,
+  message: null,
+  last_checked_at: null,
+  consecutive_failures: 0,
+  consecutive_successes: 0,
+  failing_since: null,
+  closed_since: null,
+  opened_at: null,
+  error_since: null,
+  transitions: [],
+  flapping_since: null,
+  degraded_since: null,
+  incident_id: null,
+});
+
+// Fold one probe result into the endpoint's stored state. A closure or
+// recovery only counts once it has been seen on enough consecutive probes,
+// and while an endpoint is flapping its individual transitions are not
+// reported at all. Deciding who to alert is left to the alert rules.
+export function evaluateProbe(
+  endpointId: string,
+  previous: EndpointState | undefined,
+  result: ProbeResult,
+  settings: EvaluationSettings,
+  now: Date
+): Evaluation {
+  const nowIso = now.toISOString();
+  const state: EndpointState = {
+    ...(previous ?? initialState(endpointId)),
+    reason: result.reason,
+    time_ms: result.time_ms,
+    message: result.message,
+    last_checked_at: nowIso,
+  };
+  const evaluation: Evaluation = {
+    state,
+    closed: false,
+    recovered: false,
+    errored: false,
+    flapStarted: false,
+    flapEnded: false,
+    degradedStarted: false,
+    degradedEnded: false,
+  };
+
+  if (result.status === 'error') {
+    // An inconclusive probe neither confirms nor clears anything
+    evaluation.errored = !state.error_since;
+    state.error_since ??= nowIso;
+    state.status = 'error';
+    return evaluation;
+  }
+
+  state.error_since = null;
+
+  let transitioned = false;
+  if (result.status === 'closed') {
+    state.consecutive_failures++;
+    state.consecutive_successes = 0;
+    state.failing_since ??= nowIso;
+
+    if (!state.closed_since && state.consecutive_failures >= settings.fail_threshold) {
+      // Date the outage from the first failed probe, not the confirming one
+      state.closed_since = state.failing_since;
+      transitioned = true;
+      evaluation.closed = true;
+    }
+  } else {
+    state.consecutive_successes++;
+    state.consecutive_failures = 0;
+    state.failing_since = null;
+
+    if (state.closed_since && state.consecutive_successes >= settings.recover_threshold) {
+      state.closed_since = null;
+      state.opened_at = nowIso;
+      transitioned = true;
+      evaluation.recovered = true;
+    }
+  }
+
+  // Keep only the transitions inside the flap window
+  const windowMs = settings.flap_window_seconds * 1000;
+  state.transitions = [...state.transitions, ...(transitioned ? [nowIso] : [])].filter(
+    (t) => elapsedSince(t, now) <= windowMs
+  );
+
+  const wasFlapping = !!state.flapping_since;
+  const isFlapping = state.transitions.length >= settings.flap_threshold;
+  if (isFlapping && !wasFlapping) {
+    state.flapping_since = nowIso;
+    evaluation.flapStarted = true;
+  } else if (!isFlapping && wasFlapping) {
+    state.flapping_since = null;
+    evaluation.flapEnded = true;
+  }
+
+  // Slowness only means something while the port is otherwise up
+  const wasDegraded = !!state.degraded_since;
+  const isDegraded =
+    !state.flapping_since &&
+    !state.closed_since &&
+    result.status === 'open' &&
+    settings.degraded_ms !== null &&
+    result.time_ms >= settings.degraded_ms;
+  if (isDegraded && !wasDegraded) {
+    state.degraded_since = nowIso;
+    evaluation.degradedStarted = true;
+  } else if (!isDegraded && wasDegraded) {
+    state.degraded_since = null;
+    evaluation.degradedEnded = true;
+  }
+
+  if (state.flapping_since) {
+    // Individual transitions are suppressed while flapping
+    state.status = 'flapping';
+    evaluation.closed = false;
+    evaluation.recovered = false;
+    return evaluation;
+  }
+
+  // An unconfirmed first failure on a never-seen endpoint stays idle
+  const seenOpen = result.status === 'open' || (!!previous && previous.status !== 'idle');
+  state.status = state.closed_since ? 'closed' : state.degraded_since ? 'degraded' : seenOpen ? 'open' : 'idle';
+  return evaluation;
+}
@@ -1,68 +1,413 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { dispatchOnce, DispatchInProgressError } from "../_shared/dispatch.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Who alerts come from. The address must be on a domain verified with Resend.
+const SENDER = Deno.env.get("ALERT_EMAIL_FROM") ?? "Port Monitor <onboarding@resend.dev>";
+const REPLY_TO = Deno.env.get("ALERT_EMAIL_REPLY_TO");
+const SENDER_DOMAIN = SENDER.match(/@([^>\s]+)/)?.[1] ?? "port-monitor.local";
+
+// Only the monitor sends alerts, and it calls with the service role key. Any
+// other caller could use this function to mail whatever it likes to anyone.
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+type AlertKind = "closed" | "error" | "flapping" | "degraded";
+
 interface EmailAlertRequest {
+  // Names this message, e.g. the incident, rule, step and round it is for.
+  // Repeating a request with the same key never sends a second email.
+  idempotencyKey: string;
+  to: string[];
+  kind?: AlertKind | "recovered";
+  // Message-ID of an earlier alert this one answers, and its subject or, when
+  // that was not kept, what the alert was about
+  inReplyTo?: string;
+  replySubject?: string;
+  replyToKind?: AlertKind;
   brand: string;
   ip: string;
+  port?: number;
   ipType: string;
   closedSince: string;
+  reason?: string;
+  timeMs?: number;
+  severity?: "info" | "warning" | "critical";
+  // A closure while the brand's other link is still open
+  failover?: boolean;
+  rule?: string;
+  recoveredAt?: string;
+  downtime?: string;
+  // Set when several endpoints closed together; the email lists all of them
+  endpoints?: GroupedEndpoint[];
+  // Set for an ISP outage or a site going down, which replaces the endpoints' own alerts
+  outage?: OutageSummary;
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+interface OutageSummary {
+  kind: "network" | "site";
+  // The network group or brand
+  title: string;
+  provider?: string;
+  down: number;
+  total: number;
+  openedAt: string;
+  resolvedAt?: string;
+  downtime?: string;
+}
+
+interface GroupedEndpoint {
+  brand: string;
+  ip: string;
+  port?: number;
+  ipType: string;
+  closedSince: string;
+  reason?: string;
+  failover?: boolean;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// Brands, reasons, rule names and the like come from the inventory and from
+// probe errors, so they are escaped before going into the HTML
+const escapeHtml = (value: string | number) => String(value).replace(/[&<>"']/g, (c) => HTML_ENTITIES[c]);
+
+const detailRow = (label: string, value: string | number, last = false) =>
+  `<p style="margin: ${last ? "0" : "0 0 10px 0"};"><strong>${label}:</strong> ${escapeHtml(value)}</p>`;
+
+// "6 Live IPs down", or "6 endpoints down" when their roles differ
+function groupSubject(endpoints: GroupedEndpoint[]) {
+  const roles = new Set(endpoints.map((endpoint) => endpoint.ipType));
+  const what = roles.size === 1 ? `${[...roles][0]}s` : "endpoints";
+  return `🚨 ${endpoints.length} ${what} down`;
+}
+
+function buildGroupEmail({ endpoints = [], severity, rule }: EmailAlertRequest) {
+  const rows = endpoints.map(({ brand, ipType, ip, port = 20000, closedSince, reason, failover }) => `
+                <tr>
+                  <td style="padding: 6px 8px; border-top: 1px solid #fecaca;">${escapeHtml(brand)}${failover ? " (on backup link)" : ""}</td>
+                  <td style="padding: 6px 8px; border-top: 1px solid #fecaca;">${escapeHtml(ipType)}</td>
+                  <td style="padding: 6px 8px; border-top: 1px solid #fecaca;">${escapeHtml(`${ip}:${port}`)}</td>
+                  <td style="padding: 6px 8px; border-top: 1px solid #fecaca;">${escapeHtml(closedSince)}</td>
+                  <td style="padding: 6px 8px; border-top: 1px solid #fecaca;">${escapeHtml(reason ?? "")}</td>
+                </tr>`);
+
+  return {
+    subject: groupSubject(endpoints),
+    html: `
+          <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #dc2626; margin-bottom: 20px;">⚠️ ${endpoints.length} Ports Closed</h1>
+            <div style="background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${severity ? detailRow("Severity", severity.toUpperCase()) : ""}
+              ${rule ? detailRow("Rule", rule) : ""}
+              ${detailRow("Alert Time", new Date().toLocaleString())}
+              <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+                <tr>
+                  <th style="text-align: left; padding: 6px 8px;">Brand</th>
+                  <th style="text-align: left; padding: 6px 8px;">IP Type</th>
+                  <th style="text-align: left; padding: 6px 8px;">Address</th>
+                  <th style="text-align: left; padding: 6px 8px;">Closed Since</th>
+                  <th style="text-align: left; padding: 6px 8px;">Reason</th>
+                </tr>${rows.join("")}
+              </table>
+            </div>
+            <p style="color: #991b1b; font-weight: bold;">These ports closed at about the same time, which usually means a shared upstream link is down. Please check the connection immediately.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+  };
+}
+
+function buildOutageEmail({
+  kind,
+  outage,
+  endpoints = [],
+  severity,
+  rule,
+}: EmailAlertRequest & { outage: OutageSummary }) {
+  const recovered = kind === "recovered";
+  const name = outage.kind === "network" ? "ISP Outage" : "Site Down";
+  const target = outage.provider ? `${outage.title} (${outage.provider})` : outage.title;
+  const scope = outage.kind === "network"
+    ? `${outage.down} of ${outage.total} endpoints down`
+    : `all ${outage.total} IPs down`;
+  const [color, background, border] = recovered ? ["#16a34a", "#f0fdf4", "#bbf7d0"] : ["#dc2626", "#fef2f2", "#fecaca"];
+  const affected = endpoints
+    .map(({ brand, ipType, ip, port = 20000 }) => `<li>${escapeHtml(`${brand} - ${ipType} (${ip}:${port})`)}</li>`)
+    .join("");
+
+  return {
+    subject: recovered
+      ? `✅ ${name.toUpperCase()} OVER: ${target}`
+      : `${outage.kind === "network" ? "🌐" : "🏬"} ${name.toUpperCase()}: ${target} - ${scope}`,
+    html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: ${color}; margin-bottom: 20px;">${recovered ? "✅" : "⚠️"} ${name}${recovered ? " Over" : ""}: ${escapeHtml(outage.title)}</h1>
+            <div style="background: ${background}; border: 1px solid ${border}; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${outage.kind === "network" ? detailRow("Network", target) : detailRow("Brand", outage.title)}
+              ${recovered ? "" : detailRow("Affected", scope)}
+              ${severity ? detailRow("Severity", severity.toUpperCase()) : ""}
+              ${rule ? detailRow("Rule", rule) : ""}
+              ${detailRow("Down Since", outage.openedAt)}
+              ${recovered ? detailRow("Recovered At", outage.resolvedAt ?? new Date().toLocaleString()) : ""}
+              ${recovered ? detailRow("Total Downtime", outage.downtime ?? "Unknown") : ""}
+              <ul style="margin: 10px 0 0 0;">${affected}</ul>
+            </div>
+            <p style="color: ${recovered ? "#166534" : "#991b1b"}; font-weight: bold;">${
+              recovered
+                ? "The outage is over. Endpoints still closed are alerted about on their own again."
+                : outage.kind === "network"
+                  ? "These endpoints share an upstream link, which is most likely down. Please contact the provider. Alerts for the individual endpoints are paused until it is back."
+                  : "Every IP of this site is down, so the store itself has most likely lost power or its connection. Alerts for the individual IPs are paused until it is back."
+            }</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+  };
+}
+
+function buildEmail({
+  kind = "closed",
+  brand,
+  ip,
+  port = 20000,
+  ipType,
+  closedSince,
+  reason,
+  timeMs,
+  severity,
+  failover,
+  rule,
+  recoveredAt,
+  downtime,
+}: EmailAlertRequest) {
+  const details = [
+    detailRow("Brand", brand),
+    detailRow("IP Type", ipType),
+    detailRow("IP Address", ip),
+    detailRow("Port", port),
+    ...(severity ? [detailRow("Severity", severity.toUpperCase())] : []),
+    ...(rule ? [detailRow("Rule", rule)] : []),
+  ];
+
+  if (kind === "recovered") {
+    return {
+      subject: `✅ PORT RECOVERED: ${brand} - ${ipType}`,
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #16a34a; margin-bottom: 20px;">✅ Port Recovered</h1>
+            <div style="background: #f0fdf4; border: 1px solid #bbf7d0; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${details.join("\n              ")}
+              ${detailRow("Closed At", closedSince)}
+              ${detailRow("Recovered At", recoveredAt ?? new Date().toLocaleString())}
+              ${detailRow("Total Downtime", downtime ?? "Unknown", true)}
+            </div>
+            <p style="color: #166534; font-weight: bold;">This port is open again. No action is needed.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+    };
   }
 
-  try {
-    const { brand, ip, ipType, closedSince }: EmailAlertRequest = await req.json();
-    const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  if (kind === "error") {
+    return {
+      subject: `⚠️ MONITORING PROBLEM: ${brand} - ${ipType}`,
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #d97706; margin-bottom: 20px;">⚠️ Port Status Unknown</h1>
+            <div style="background: #fffbeb; border: 1px solid #fde68a; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${details.join("\n              ")}
+              ${detailRow("Unknown Since", closedSince)}
+              ${detailRow("Reason", reason ?? "Unknown")}
+              ${detailRow("Alert Time", new Date().toLocaleString(), true)}
+            </div>
+            <p style="color: #92400e; font-weight: bold;">The monitor has been unable to check this port. The port itself may still be open; please check the monitoring setup.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+    };
+  }
+
+  if (kind === "degraded") {
+    return {
+      subject: `🐢 PORT DEGRADED: ${brand} - ${ipType}`,
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #ca8a04; margin-bottom: 20px;">🐢 Slow Connection Notice</h1>
+            <div style="background: #fefce8; border: 1px solid #fef08a; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${details.join("\n              ")}
+              ${detailRow("Slow Since", closedSince)}
+              ${detailRow("Connect Time", timeMs !== undefined ? `${timeMs}ms` : "Unknown")}
+              ${detailRow("Alert Time", new Date().toLocaleString(), true)}
+            </div>
+            <p style="color: #854d0e;">This port is still open but has been slow to accept connections. This often comes before the link drops; please keep an eye on it.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+    };
+  }
 
-    console.log(`Sending email alert for ${brand} - ${ipType}: ${ip}`);
+  if (kind === "flapping") {
+    return {
+      subject: `🔁 PORT FLAPPING: ${brand} - ${ipType}`,
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #7c3aed; margin-bottom: 20px;">🔁 Port Flapping Alert</h1>
+            <div style="background: #f5f3ff; border: 1px solid #ddd6fe; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${details.join("\n              ")}
+              ${detailRow("Flapping Since", closedSince)}
+              ${detailRow("Alert Time", new Date().toLocaleString(), true)}
+            </div>
+            <p style="color: #5b21b6; font-weight: bold;">This port keeps switching between open and closed. Individual closed/recovered alerts are paused until the link is stable again. Please check the link quality.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+    };
+  }
 
-    const res = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${RESEND_API_KEY}`,
-      },
-      body: JSON.stringify({
-        from: "Port Monitor <onboarding@resend.dev>",
-        to: ["hammad.jahangir@eastgateindustries.com"],
-        subject: `🚨 PORT CLOSED: ${brand} - ${ipType}`,
-        html: `
+  if (failover) {
+    return {
+      subject: `🟠 RUNNING ON BACKUP LINK: ${brand} - ${ipType} closed`,
+      html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h1 style="color: #ea580c; margin-bottom: 20px;">🟠 Running on Backup Link</h1>
+            <div style="background: #fff7ed; border: 1px solid #fed7aa; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+              ${details.join("\n              ")}
+              ${detailRow("Closed Since", closedSince)}
+              ${detailRow("Alert Time", new Date().toLocaleString(), true)}
+            </div>
+            <p style="color: #9a3412; font-weight: bold;">This port is closed, but ${escapeHtml(brand)} is still reachable on its other link, so the store is still trading. Please get this link fixed before the backup fails too.</p>
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
+          </div>
+        `,
+    };
+  }
+
+  return {
+    subject: `🚨 PORT CLOSED: ${brand} - ${ipType}`,
+    html: `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
             <h1 style="color: #dc2626; margin-bottom: 20px;">⚠️ Port Closed Alert</h1>
             <div style="background: #fef2f2; border: 1px solid #fecaca; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
-              <p style="margin: 0 0 10px 0;"><strong>Brand:</strong> ${brand}</p>
-              <p style="margin: 0 0 10px 0;"><strong>IP Type:</strong> ${ipType}</p>
-              <p style="margin: 0 0 10px 0;"><strong>IP Address:</strong> ${ip}</p>
-              <p style="margin: 0 0 10px 0;"><strong>Port:</strong> 20000</p>
-              <p style="margin: 0 0 10px 0;"><strong>Closed Since:</strong> ${closedSince}</p>
-              <p style="margin: 0;"><strong>Alert Time:</strong> ${new Date().toLocaleString()}</p>
+              ${details.join("\n              ")}
+              ${detailRow("Closed Since", closedSince)}
+              ${detailRow("Alert Time", new Date().toLocaleString(), true)}
             </div>
-            <p style="color: #991b1b; font-weight: bold;">This port has been closed for more than 2 minutes. Please check the connection immediately.</p>
+            <p style="color: #991b1b; font-weight: bold;">This port is closed. Please check the connection immediately.</p>
             <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
             <p style="color: #6b7280; font-size: 12px;">EastGate Port Status Monitor</p>
           </div>
         `,
-      }),
-    });
+  };
+}
 
-    const data = await res.json();
-    console.log("Email sent:", data);
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-    return new Response(JSON.stringify({ success: true, data }), {
-      status: 200,
+  if (!SERVICE_ROLE_KEY || req.headers.get("Authorization") !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(JSON.stringify({ error: "Only the monitor may send alerts" }), {
+      status: 403,
       headers: { "Content-Type": "application/json", ...corsHeaders },
     });
+  }
+
+  try {
+    const request: EmailAlertRequest = await req.json();
+    const email = request.outage
+      ? buildOutageEmail({ ...request, outage: request.outage })
+      : request.endpoints && request.endpoints.length > 1
+        ? buildGroupEmail(request)
+        : buildEmail(request);
+    const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+    const { to, idempotencyKey } = request;
+    if (!to?.length || !idempotencyKey) {
+      return new Response(JSON.stringify({ error: to?.length ? "No idempotency key given" : "No recipients given" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    // Our own Message-ID, so follow-up messages can be threaded under this one.
+    // Mail clients that thread by subject need the original subject as well.
+    const messageId = `<${crypto.randomUUID()}@${SENDER_DOMAIN}>`;
+    const subject = request.inReplyTo
+      ? `Re: ${request.replySubject ?? buildEmail({ ...request, kind: request.replyToKind ?? "closed" }).subject}`
+      : email.subject;
+    const threadHeaders = request.inReplyTo
+      ? { "In-Reply-To": request.inReplyTo, "References": request.inReplyTo }
+      : {};
+
+    const result = await dispatchOnce(idempotencyKey, "email", async () => {
+      console.log(
+        request.outage
+          ? `Sending ${request.outage.kind} outage email for ${request.outage.title}`
+          : request.endpoints && request.endpoints.length > 1
+            ? `Sending grouped email alert for ${request.endpoints.length} endpoints`
+            : `Sending ${request.kind ?? "closed"} email alert for ${request.brand} - ${request.ipType}: ${request.ip}`,
+      );
+
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${RESEND_API_KEY}`,
+          // Resend also drops repeats of a key for 24 hours
+          "Idempotency-Key": idempotencyKey,
+        },
+        body: JSON.stringify({
+          from: SENDER,
+          ...(REPLY_TO ? { reply_to: REPLY_TO } : {}),
+          to,
+          subject,
+          html: email.html,
+          headers: { "Message-ID": messageId, ...threadHeaders },
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        console.error("Resend API error:", data);
+        throw new Error(data.message || "Failed to send email");
+      }
+      console.log("Email sent:", data);
+      return { messageId, recipients: to, subject };
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        duplicate: !result.sent,
+        to: result.recipients,
+        messageId: result.messageId,
+        subject: result.subject,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      },
+    );
   } catch (error: any) {
     console.error("Error in send-email-alert:", error);
     return new Response(JSON.stringify({ error: error.message }), {
-      status: 500,
+      status: error instanceof DispatchInProgressError ? 409 : 500,
       headers: { "Content-Type": "application/json", ...corsHeaders },
     });
   }
@@ -0,0 +1,133 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, SERVICE_ROLE_KEY);
+
+const BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 10000;
+// Retries back off from 30 seconds, doubling up to an hour; after the last
+// attempt (about 5 hours in) the delivery is marked failed
+const MAX_ATTEMPTS = 12;
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 3600;
+
+interface ClaimedDelivery {
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+const encoder = new TextEncoder();
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>". Including the timestamp lets
+// receivers reject replayed requests.
+async function sign(secret: string, timestamp: string, body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const backoffSeconds = (attempts: number) =>
+  Math.min(BASE_BACKOFF_SECONDS * 2 ** (attempts - 1), MAX_BACKOFF_SECONDS);
+
+// Post one delivery and record how it went
+async function send(delivery: ClaimedDelivery) {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const attempts = delivery.attempts + 1;
+
+  let status: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'EastGate-Port-Monitor-Webhooks/1',
+        'X-Port-Monitor-Event': delivery.event,
+        'X-Port-Monitor-Delivery': delivery.id,
+        'X-Port-Monitor-Timestamp': timestamp,
+        'X-Port-Monitor-Signature': `sha256=${await sign(delivery.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    status = response.status;
+    if (!response.ok) error = (await response.text()).slice(0, 500) || response.statusText;
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : 'Unknown error';
+  }
+
+  const delivered = error === null;
+  const update = delivered
+    ? { status: 'delivered', attempts, last_attempt_at: new Date().toISOString(), last_status: status, last_error: null }
+    : {
+      status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+      attempts,
+      last_attempt_at: new Date().toISOString(),
+      next_attempt_at: new Date(Date.now() + backoffSeconds(attempts) * 1000).toISOString(),
+      last_status: status,
+      last_error: error,
+    };
+
+  const { error: updateError } = await supabase.from('webhook_deliveries').update(update).eq('id', delivery.id);
+  if (updateError) console.error(`Failed to record webhook delivery ${delivery.id}:`, updateError);
+  if (!delivered) console.warn(`Webhook ${delivery.event} to ${delivery.url} failed (attempt ${attempts}): ${error}`);
+  return delivered;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the monitor sends webhooks, with the service role key. The anon key
+  // also passes the JWT check, and would let anyone drain the delivery queue.
+  if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(
+      JSON.stringify({ error: 'Only the monitor may send webhooks' }),
+      { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const { data, error } = await supabase
+      .rpc('claim_webhook_deliveries', { max_deliveries: BATCH_SIZE })
+      .returns<ClaimedDelivery[]>();
+    if (error) throw error;
+
+    const results = await Promise.all(data.map(send));
+    const summary = { delivered: results.filter(Boolean).length, failed: results.filter((ok) => !ok).length };
+    if (data.length > 0) console.log('Webhooks sent:', summary);
+
+    return new Response(
+      JSON.stringify(summary),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in send-webhooks function:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { dispatchOnce, DispatchInProgressError } from '../_shared/dispatch.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,25 +7,144 @@ const corsHeaders = {
 };
 
 interface WhatsAppRequest {
+  // Names this message, e.g. the incident, rule, step, round and number it is
+  // for. Repeating a request with the same key never sends a second message.
+  idempotencyKey: string;
+  kind?: 'closed' | 'error' | 'flapping' | 'degraded' | 'recovered';
   phoneNumber: string;
   brand: string;
   host: string;
   port: string;
+  ipType?: string;
+  // A closure while the brand's other link is still open
+  failover?: boolean;
+  // When the port entered the condition, already formatted for the reader
+  since?: string;
+  recoveredAt?: string;
+  downtime?: string;
+  // WhatsApp message id of an earlier alert this one answers
+  replyTo?: string;
+  // Set for an ISP outage or a site going down, instead of a single endpoint
+  outage?: OutageSummary;
 }
 
+interface OutageSummary {
+  kind: 'network' | 'site';
+  title: string;
+  provider?: string;
+  down: number;
+  total: number;
+  openedAt: string;
+  resolvedAt?: string;
+  downtime?: string;
+  // One line per endpoint affected
+  endpoints: string[];
+}
+
+function outageMessage(kind: WhatsAppRequest['kind'], outage: OutageSummary) {
+  const recovered = kind === 'recovered';
+  const name = outage.kind === 'network' ? 'ISP OUTAGE' : 'SITE DOWN';
+  const title = recovered ? `✅ ${name} OVER` : `${outage.kind === 'network' ? '🌐' : '🏬'} ${name}`;
+  const details = [
+    `${outage.kind === 'network' ? 'Network' : 'Brand'}: ${outage.title}`,
+    ...(outage.provider ? [`Provider: ${outage.provider}`] : []),
+    ...(recovered ? [] : [`Down: ${outage.down} of ${outage.total}`]),
+    `Down since: ${outage.openedAt}`,
+    ...(outage.resolvedAt ? [`Recovered at: ${outage.resolvedAt}`] : []),
+    ...(outage.downtime ? [`Total downtime: ${outage.downtime}`] : []),
+  ];
+  return `${title}\n\n${details.join('\n')}\n\n${outage.endpoints.join('\n')}\n\n${
+    recovered
+      ? 'The outage is over.'
+      : `Alerts for the individual endpoints are paused until it is back. Please check ${
+        outage.kind === 'network' ? 'the upstream link' : "the store's power and connection"
+      }.`
+  }`;
+}
+
+const ALERT_TITLES: Record<NonNullable<WhatsAppRequest['kind']>, string> = {
+  closed: '🚨 PORT CLOSED ALERT',
+  error: '⚠️ PORT STATUS UNKNOWN',
+  flapping: '🔁 PORT FLAPPING ALERT',
+  degraded: '🐢 PORT DEGRADED',
+  recovered: '✅ PORT RECOVERED',
+};
+
+const SINCE_LABELS: Record<NonNullable<WhatsAppRequest['kind']>, string> = {
+  closed: 'Closed since',
+  error: 'Unknown since',
+  flapping: 'Flapping since',
+  degraded: 'Slow since',
+  recovered: 'Closed at',
+};
+
+// Point this at a local stand-in (see supabase/dev/whatsapp-graph-mock.ts) to test without Meta
+const GRAPH_API_BASE_URL = Deno.env.get('WHATSAPP_API_BASE_URL') ?? 'https://graph.facebook.com/v18.0';
+
+// Only the monitor sends alerts, and it calls with the service role key. Any
+// other caller could message any number, or claim an alert's key before it is sent.
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  if (!SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(JSON.stringify({ error: 'Only the monitor may send alerts' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
   try {
-    const { phoneNumber, brand, host, port }: WhatsAppRequest = await req.json();
+    const {
+      idempotencyKey,
+      kind = 'closed',
+      phoneNumber,
+      brand,
+      host,
+      port,
+      ipType,
+      failover,
+      since,
+      recoveredAt,
+      downtime,
+      replyTo,
+      outage,
+    }: WhatsAppRequest = await req.json();
+
+    if (!idempotencyKey) {
+      return new Response(
+        JSON.stringify({ error: 'No idempotency key given' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 400
+        }
+      );
+    }
     
-    console.log(`Sending WhatsApp alert for ${brand} - ${host}:${port} to ${phoneNumber}`);
+    console.log(`Sending WhatsApp alert for ${outage ? outage.title : `${brand} - ${host}:${port}`} to ${phoneNumber}`);
     
     // Format the message
-    const message = `🚨 PORT CLOSED ALERT\n\nBrand: ${brand}\nHost: ${host}\nPort: ${port}\nTime: ${new Date().toLocaleString()}\n\nPlease check the connection immediately.`;
+    const details = [
+      `Brand: ${brand}`,
+      ...(ipType ? [`IP Type: ${ipType}`] : []),
+      `Host: ${host}`,
+      `Port: ${port}`,
+      ...(since ? [`${SINCE_LABELS[kind]}: ${since}`] : []),
+      ...(recoveredAt ? [`Recovered at: ${recoveredAt}`] : []),
+      ...(downtime ? [`Total downtime: ${downtime}`] : []),
+      `Time: ${new Date().toLocaleString()}`,
+    ];
+    const message = outage
+      ? outageMessage(kind, outage)
+      : failover && kind === 'closed'
+        ? `🟠 RUNNING ON BACKUP LINK\n\n${details.join('\n')}\n\nThe store is still online on its other link. Please get this one fixed before the backup fails too.`
+        : `${ALERT_TITLES[kind]}\n\n${details.join('\n')}\n\n${
+          kind === 'recovered' ? 'The port is open again. No action is needed.' : 'Please check the connection immediately.'
+        }`;
     
     // Using WhatsApp Business API via WhatsApp Cloud API
     // Note: User needs to set up Meta Business Account and get access token
@@ -47,34 +167,39 @@ serve(async (req) => {
     }
 
     // Send via WhatsApp Cloud API
-    const whatsappResponse = await fetch(
-      `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messaging_product: 'whatsapp',
-          to: phoneNumber,
-          type: 'text',
-          text: { body: message }
-        })
-      }
-    );
+    const result = await dispatchOnce(idempotencyKey, 'whatsapp', async () => {
+      const whatsappResponse = await fetch(
+        `${GRAPH_API_BASE_URL}/${phoneNumberId}/messages`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            messaging_product: 'whatsapp',
+            to: phoneNumber,
+            type: 'text',
+            text: { body: message },
+            // Shows the message as a reply to the earlier alert
+            ...(replyTo ? { context: { message_id: replyTo } } : {}),
+          })
+        }
+      );
 
-    const responseData = await whatsappResponse.json();
-    
-    if (!whatsappResponse.ok) {
-      console.error('WhatsApp API error:', responseData);
-      throw new Error('Failed to send WhatsApp message');
-    }
+      const responseData = await whatsappResponse.json();
+
+      if (!whatsappResponse.ok) {
+        console.error('WhatsApp API error:', responseData);
+        throw new Error('Failed to send WhatsApp message');
+      }
 
-    console.log('WhatsApp message sent successfully:', responseData);
+      console.log('WhatsApp message sent successfully:', responseData);
+      return { messageId: responseData.messages?.[0]?.id ?? null, recipients: [phoneNumber] };
+    });
 
     return new Response(
-      JSON.stringify({ success: true, data: responseData }),
+      JSON.stringify({ success: true, duplicate: !result.sent, messageId: result.messageId }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200 
@@ -87,7 +212,7 @@ serve(async (req) => {
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500 
+        status: error instanceof DispatchInProgressError ? 409 : 500 
       }
     );
   }
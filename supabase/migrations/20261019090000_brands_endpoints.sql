@@ -0,0 +1,81 @@
+-- Endpoint inventory shared by the dashboard and the check-port function.
+
+create or replace function public.update_updated_at_column()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create table public.brands (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  host text not null,
+  default_port integer not null default 20000 check (default_port between 1 and 65535),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.endpoints (
+  id uuid primary key default gen_random_uuid(),
+  brand_id uuid not null references public.brands (id) on delete cascade,
+  ip_type text not null check (ip_type in ('brain_net', 'live')),
+  ip text not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (brand_id, ip_type)
+);
+
+create index endpoints_brand_id_idx on public.endpoints (brand_id);
+
+create trigger update_brands_updated_at
+  before update on public.brands
+  for each row execute function public.update_updated_at_column();
+
+create trigger update_endpoints_updated_at
+  before update on public.endpoints
+  for each row execute function public.update_updated_at_column();
+
+alter table public.brands enable row level security;
+alter table public.endpoints enable row level security;
+
+create policy "Brands are readable by everyone"
+  on public.brands for select
+  using (true);
+
+create policy "Endpoints are readable by everyone"
+  on public.endpoints for select
+  using (true);
+
+-- Seed with the brands that used to be hard-coded in the UI and edge function.
+insert into public.brands (name, host) values
+  ('Bareeze', 'barz.eastgateindustries.com'),
+  ('Bareeze Men', 'bman.eastgateindustries.com'),
+  ('Chineyere', 'chny.eastgateindustries.com'),
+  ('Mini Minor', 'mmnr.eastgateindustries.com'),
+  ('Rangja', 'rnja.eastgateindustries.com'),
+  ('The Entertainer', 'te.eastgateindustries.com');
+
+insert into public.endpoints (brand_id, ip_type, ip, enabled)
+select b.id, e.ip_type, e.ip, e.enabled
+from (values
+  ('Bareeze', 'brain_net', '122.129.92.25', true),
+  ('Bareeze', 'live', '202.59.94.86', true),
+  ('Bareeze Men', 'brain_net', '122.129.92.26', true),
+  ('Bareeze Men', 'live', '202.59.94.92', true),
+  ('Chineyere', 'brain_net', '122.129.92.28', true),
+  ('Chineyere', 'live', '202.59.94.88', true),
+  ('Mini Minor', 'brain_net', '122.129.92.29', true),
+  ('Mini Minor', 'live', '202.59.94.87', true),
+  ('Rangja', 'brain_net', '122.129.92.30', true),
+  ('Rangja', 'live', '202.59.94.91', true),
+  -- The dashboard never monitored this link, so it is recorded but left disabled.
+  ('The Entertainer', 'brain_net', '122.129.92.32', false),
+  ('The Entertainer', 'live', '202.59.94.93', true)
+) as e (brand, ip_type, ip, enabled)
+join public.brands b on b.name = e.brand;
@@ -0,0 +1,33 @@
+-- Signed-in operators manage the inventory from /admin/endpoints.
+
+create policy "Authenticated users can insert brands"
+  on public.brands for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update brands"
+  on public.brands for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete brands"
+  on public.brands for delete
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert endpoints"
+  on public.endpoints for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update endpoints"
+  on public.endpoints for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete endpoints"
+  on public.endpoints for delete
+  to authenticated
+  using (true);
@@ -0,0 +1,17 @@
+-- Replace the fixed brain_net/live slots with a free role label so a brand can
+-- have any number of monitored links (third ISP, backup VPN, ...).
+
+alter table public.endpoints
+  add column role text,
+  add column position integer not null default 0;
+
+update public.endpoints
+set role = case ip_type when 'brain_net' then 'Brain Net IP' else 'Live IP' end,
+    position = case ip_type when 'brain_net' then 0 else 1 end;
+
+alter table public.endpoints
+  alter column role set not null,
+  add constraint endpoints_role_not_blank check (length(trim(role)) > 0),
+  drop constraint endpoints_brand_id_ip_type_key,
+  drop column ip_type,
+  add constraint endpoints_brand_id_role_key unique (brand_id, role);
@@ -0,0 +1,12 @@
+-- Each endpoint carries its own probe settings so SQL/RDP ports and slow
+-- satellite links can be watched next to the 20000 service.
+
+alter table public.endpoints
+  add column port integer not null default 20000 check (port between 1 and 65535),
+  add column timeout_seconds integer not null default 3 check (timeout_seconds between 1 and 30),
+  add column interval_seconds integer not null default 30 check (interval_seconds between 10 and 3600);
+
+update public.endpoints e
+set port = b.default_port
+from public.brands b
+where b.id = e.brand_id;
@@ -0,0 +1,50 @@
+-- Latest monitored state of every endpoint, written by the scheduled
+-- `monitor` edge function and read (live) by the dashboard.
+
+create table public.endpoint_states (
+  endpoint_id uuid primary key references public.endpoints (id) on delete cascade,
+  status text not null default 'idle' check (status in ('idle', 'open', 'closed')),
+  time_ms integer,
+  message text,
+  last_checked_at timestamptz,
+  closed_since timestamptz,
+  opened_at timestamptz,
+  email_sent_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create trigger update_endpoint_states_updated_at
+  before update on public.endpoint_states
+  for each row execute function public.update_updated_at_column();
+
+alter table public.endpoint_states enable row level security;
+
+create policy "Endpoint states are readable by everyone"
+  on public.endpoint_states for select
+  using (true);
+
+alter publication supabase_realtime add table public.endpoint_states;
+
+-- Run the monitor every 10 seconds; it only probes endpoints whose own
+-- interval has elapsed. The project URL and service role key are read from
+-- Vault, so create them once per project before applying this migration:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+select cron.schedule(
+  'port-monitor',
+  '10 seconds',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/monitor',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);
@@ -0,0 +1,9 @@
+-- Probe failures (DNS, function errors) get their own status instead of being
+-- reported as a closed port, along with the reason the probe gave.
+
+alter table public.endpoint_states
+  drop constraint endpoint_states_status_check,
+  add constraint endpoint_states_status_check check (status in ('idle', 'open', 'closed', 'error')),
+  add column reason text,
+  add column error_since timestamptz,
+  add column error_email_sent_at timestamptz;
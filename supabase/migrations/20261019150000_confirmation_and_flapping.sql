@@ -0,0 +1,18 @@
+-- Require several consecutive results before declaring an endpoint closed or
+-- recovered, and flag endpoints that change state too often as flapping.
+
+alter table public.endpoints
+  add column fail_threshold integer not null default 3 check (fail_threshold between 1 and 20),
+  add column recover_threshold integer not null default 2 check (recover_threshold between 1 and 20),
+  add column flap_window_seconds integer not null default 900 check (flap_window_seconds between 60 and 86400),
+  add column flap_threshold integer not null default 4 check (flap_threshold between 2 and 100);
+
+alter table public.endpoint_states
+  drop constraint endpoint_states_status_check,
+  add constraint endpoint_states_status_check check (status in ('idle', 'open', 'closed', 'error', 'flapping')),
+  add column consecutive_failures integer not null default 0,
+  add column consecutive_successes integer not null default 0,
+  add column failing_since timestamptz,
+  add column transitions timestamptz[] not null default '{}',
+  add column flapping_since timestamptz,
+  add column flap_email_sent_at timestamptz;
@@ -0,0 +1,30 @@
+-- Every probe result, from the scheduled monitor and from manual checks, kept
+-- as history for uptime, latency and outage reporting.
+
+create table public.port_checks (
+  id bigint generated always as identity primary key,
+  endpoint_id uuid not null references public.endpoints (id) on delete cascade,
+  status text not null check (status in ('open', 'closed', 'error')),
+  time_ms integer,
+  reason text,
+  message text,
+  source text not null default 'monitor' check (source in ('monitor', 'manual')),
+  checked_at timestamptz not null default now()
+);
+
+comment on column public.port_checks.time_ms is 'Probe latency in milliseconds';
+comment on column public.port_checks.reason is 'Error class reported by the probe: connected, timeout, refused, dns or function_error';
+
+-- Per-endpoint time ranges (charts, uptime of one endpoint)
+create index port_checks_endpoint_id_checked_at_idx
+  on public.port_checks (endpoint_id, checked_at desc);
+
+-- Fleet-wide time ranges; rows are appended in time order, so BRIN stays tiny
+create index port_checks_checked_at_idx
+  on public.port_checks using brin (checked_at);
+
+alter table public.port_checks enable row level security;
+
+create policy "Port checks are readable by everyone"
+  on public.port_checks for select
+  using (true);
@@ -0,0 +1,74 @@
+-- One incident per confirmed closure of an endpoint: opened by the monitor when
+-- the endpoint goes CLOSED and resolved when it recovers.
+
+create table public.incidents (
+  id uuid primary key default gen_random_uuid(),
+  endpoint_id uuid not null references public.endpoints (id) on delete cascade,
+  opened_at timestamptz not null,
+  resolved_at timestamptz,
+  duration_seconds integer generated always as (extract(epoch from resolved_at - opened_at)::integer) stored,
+  acknowledged_at timestamptz,
+  acknowledged_by uuid references auth.users (id) on delete set null,
+  acknowledged_by_email text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (resolved_at is null or resolved_at >= opened_at)
+);
+
+-- At most one open incident per endpoint
+create unique index incidents_open_endpoint_id_idx
+  on public.incidents (endpoint_id)
+  where resolved_at is null;
+
+create index incidents_opened_at_idx on public.incidents (opened_at desc);
+
+create trigger update_incidents_updated_at
+  before update on public.incidents
+  for each row execute function public.update_updated_at_column();
+
+-- Every alert sent for an incident
+create table public.incident_notifications (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents (id) on delete cascade,
+  channel text not null,
+  kind text not null,
+  recipient text,
+  sent_at timestamptz not null default now()
+);
+
+create index incident_notifications_incident_id_idx
+  on public.incident_notifications (incident_id);
+
+alter table public.endpoint_states
+  add column incident_id uuid references public.incidents (id) on delete set null;
+
+alter table public.incidents enable row level security;
+alter table public.incident_notifications enable row level security;
+
+create policy "Incidents are readable by everyone"
+  on public.incidents for select
+  using (true);
+
+create policy "Incident notifications are readable by everyone"
+  on public.incident_notifications for select
+  using (true);
+
+-- Acknowledging records the signed-in user, so it goes through this function
+-- rather than a table update policy.
+create function public.acknowledge_incident(incident_id uuid)
+returns public.incidents
+language sql
+security definer
+set search_path = public
+as $$
+  update public.incidents
+  set acknowledged_at = now(),
+      acknowledged_by = auth.uid(),
+      acknowledged_by_email = auth.jwt() ->> 'email'
+  where id = incident_id
+    and acknowledged_at is null
+  returning *;
+$$;
+
+revoke execute on function public.acknowledge_incident(uuid) from public, anon;
+grant execute on function public.acknowledge_incident(uuid) to authenticated;
@@ -0,0 +1,141 @@
+-- Uptime reporting from the stored probe history, excluding declared
+-- maintenance windows.
+
+-- Planned work on a brand or a single endpoint. A window with neither set
+-- covers every endpoint.
+create table public.maintenance_windows (
+  id uuid primary key default gen_random_uuid(),
+  brand_id uuid references public.brands (id) on delete cascade,
+  endpoint_id uuid references public.endpoints (id) on delete cascade,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  reason text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index maintenance_windows_ends_at_idx on public.maintenance_windows (ends_at);
+
+create trigger update_maintenance_windows_updated_at
+  before update on public.maintenance_windows
+  for each row execute function public.update_updated_at_column();
+
+alter table public.maintenance_windows enable row level security;
+
+create policy "Maintenance windows are readable by everyone"
+  on public.maintenance_windows for select
+  using (true);
+
+create policy "Authenticated users can insert maintenance windows"
+  on public.maintenance_windows for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update maintenance windows"
+  on public.maintenance_windows for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete maintenance windows"
+  on public.maintenance_windows for delete
+  to authenticated
+  using (true);
+
+-- Whether an endpoint is inside a maintenance window at the given time
+create function public.is_under_maintenance(target_endpoint_id uuid, at timestamptz)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.maintenance_windows m
+    join public.endpoints e on e.id = target_endpoint_id
+    where at >= m.starts_at
+      and at < m.ends_at
+      and (m.endpoint_id is null or m.endpoint_id = e.id)
+      and (m.brand_id is null or m.brand_id = e.brand_id)
+  );
+$$;
+
+-- Availability of every endpoint over a time range, from the monitor's checks.
+-- Each check stands for the time until the next one, capped at two intervals
+-- so gaps in monitoring are not counted either way. Probe errors and checks
+-- inside maintenance windows are left out. Only runs of at least
+-- fail_threshold closed checks count as outages, the same rule the monitor
+-- uses before it declares a port closed.
+create function public.endpoint_uptime(range_start timestamptz, range_end timestamptz)
+returns table (
+  endpoint_id uuid,
+  monitored_seconds integer,
+  downtime_seconds integer,
+  availability numeric,
+  outages integer,
+  longest_outage_seconds integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  with checks as (
+    select
+      c.endpoint_id,
+      c.status,
+      c.checked_at,
+      e.fail_threshold,
+      extract(epoch from least(
+        coalesce(lead(c.checked_at) over w, range_end),
+        range_end,
+        c.checked_at + make_interval(secs => e.interval_seconds * 2)
+      ) - c.checked_at) as seconds
+    from public.port_checks c
+    join public.endpoints e on e.id = c.endpoint_id
+    where c.source = 'monitor'
+      and c.checked_at >= range_start
+      and c.checked_at < range_end
+    window w as (partition by c.endpoint_id order by c.checked_at)
+  ),
+  counted as (
+    select
+      checks.*,
+      row_number() over (partition by checks.endpoint_id order by checks.checked_at)
+        - row_number() over (partition by checks.endpoint_id, checks.status order by checks.checked_at) as run
+    from checks
+    where checks.status <> 'error'
+      and not public.is_under_maintenance(checks.endpoint_id, checks.checked_at)
+  ),
+  outage_runs as (
+    select counted.endpoint_id, sum(counted.seconds) as seconds
+    from counted
+    where counted.status = 'closed'
+    group by counted.endpoint_id, counted.run
+    having count(*) >= max(counted.fail_threshold)
+  ),
+  totals as (
+    select counted.endpoint_id, sum(counted.seconds) as seconds
+    from counted
+    group by counted.endpoint_id
+  ),
+  outage_totals as (
+    select
+      outage_runs.endpoint_id,
+      sum(outage_runs.seconds) as seconds,
+      count(*) as outages,
+      max(outage_runs.seconds) as longest
+    from outage_runs
+    group by outage_runs.endpoint_id
+  )
+  select
+    e.id,
+    coalesce(t.seconds, 0)::integer,
+    coalesce(o.seconds, 0)::integer,
+    case when t.seconds > 0 then round(100 * (1 - coalesce(o.seconds, 0) / t.seconds), 3) end,
+    coalesce(o.outages, 0)::integer,
+    coalesce(o.longest, 0)::integer
+  from public.endpoints e
+  left join totals t on t.endpoint_id = e.id
+  left join outage_totals o on o.endpoint_id = e.id;
+$$;
@@ -0,0 +1,35 @@
+-- Connect-time statistics for one endpoint per time bucket, for the latency charts.
+-- Only successful connects carry a meaningful time; timeouts would just report
+-- the configured limit.
+create function public.endpoint_latency(
+  target_endpoint_id uuid,
+  range_start timestamptz,
+  range_end timestamptz,
+  bucket_seconds integer
+)
+returns table (
+  bucket_start timestamptz,
+  checks integer,
+  min_ms integer,
+  avg_ms integer,
+  p95_ms integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    date_bin(make_interval(secs => bucket_seconds), c.checked_at, range_start) as bucket_start,
+    count(*)::integer,
+    min(c.time_ms)::integer,
+    round(avg(c.time_ms))::integer,
+    round(percentile_cont(0.95) within group (order by c.time_ms))::integer
+  from public.port_checks c
+  where c.endpoint_id = target_endpoint_id
+    and c.status = 'open'
+    and c.time_ms is not null
+    and c.checked_at >= range_start
+    and c.checked_at < range_end
+  group by 1
+  order by 1;
+$$;
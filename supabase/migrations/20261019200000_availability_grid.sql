@@ -0,0 +1,42 @@
+-- Share of successful checks per endpoint and time bucket, for the outage
+-- heatmap. Unlike endpoint_uptime this counts every failed check, so short
+-- blips stay visible. One row per endpoint with a value for every bucket
+-- (null where there is no data), oldest first.
+create function public.availability_grid(range_start timestamptz, range_end timestamptz, bucket_seconds integer)
+returns table (
+  endpoint_id uuid,
+  availability numeric[]
+)
+language sql
+stable
+set search_path = public
+as $$
+  with buckets as (
+    select generate_series(
+      range_start,
+      range_end - make_interval(secs => bucket_seconds),
+      make_interval(secs => bucket_seconds)
+    ) as bucket_start
+  ),
+  stats as (
+    select
+      c.endpoint_id,
+      date_bin(make_interval(secs => bucket_seconds), c.checked_at, range_start) as bucket_start,
+      count(*) filter (where c.status = 'open') as up,
+      count(*) as total
+    from public.port_checks c
+    where c.source = 'monitor'
+      and c.status <> 'error'
+      and c.checked_at >= range_start
+      and c.checked_at < range_end
+      and not public.is_under_maintenance(c.endpoint_id, c.checked_at)
+    group by 1, 2
+  )
+  select
+    e.id,
+    array_agg(round(100.0 * s.up / s.total, 1) order by b.bucket_start)
+  from public.endpoints e
+  cross join buckets b
+  left join stats s on s.endpoint_id = e.id and s.bucket_start = b.bucket_start
+  group by e.id;
+$$;
@@ -0,0 +1,15 @@
+-- Endpoints that accept connections but only slowly are reported as degraded
+-- rather than open, with their own lower-severity alert.
+
+alter table public.endpoints
+  add column degraded_ms integer check (degraded_ms between 1 and 30000),
+  add constraint endpoints_degraded_ms_below_timeout check (degraded_ms < timeout_seconds * 1000);
+
+comment on column public.endpoints.degraded_ms is 'Connect time at or above which an open port is degraded; null disables the check';
+
+alter table public.endpoint_states
+  drop constraint endpoint_states_status_check,
+  add constraint endpoint_states_status_check
+    check (status in ('idle', 'open', 'degraded', 'closed', 'error', 'flapping')),
+  add column degraded_since timestamptz,
+  add column degraded_email_sent_at timestamptz;
@@ -0,0 +1,109 @@
+-- Alerting is driven by rules stored as data instead of the fixed delays in
+-- the monitor: which condition, for how long, on which endpoints, how severe
+-- and over which channels.
+
+-- Free-form labels used to scope rules, e.g. every Live IP
+alter table public.endpoints
+  add column tags text[] not null default '{}';
+
+create index endpoints_tags_idx on public.endpoints using gin (tags);
+
+update public.endpoints
+set tags = array[lower(regexp_replace(trim(role), '\s+', '-', 'g'))];
+
+create table public.alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  condition text not null check (condition in ('closed', 'degraded', 'flapping', 'error')),
+  duration_seconds integer not null default 0 check (duration_seconds between 0 and 86400),
+  -- Scope: one endpoint, every endpoint with a tag, or everything when both are null
+  endpoint_id uuid references public.endpoints (id) on delete cascade,
+  tag text,
+  severity text not null default 'warning' check (severity in ('info', 'warning', 'critical')),
+  channels text[] not null,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint alert_rules_single_scope check (endpoint_id is null or tag is null),
+  constraint alert_rules_channels_check
+    check (cardinality(channels) > 0 and channels <@ array['email', 'whatsapp'])
+);
+
+create trigger update_alert_rules_updated_at
+  before update on public.alert_rules
+  for each row execute function public.update_updated_at_column();
+
+-- What each rule has already sent, so it fires once per channel for every
+-- stretch of time an endpoint spends in the rule's condition
+create table public.alert_firings (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid not null references public.alert_rules (id) on delete cascade,
+  endpoint_id uuid not null references public.endpoints (id) on delete cascade,
+  condition_since timestamptz not null,
+  channel text not null,
+  fired_at timestamptz not null default now(),
+  unique (rule_id, endpoint_id, condition_since, channel)
+);
+
+create index alert_firings_endpoint_id_condition_since_idx
+  on public.alert_firings (endpoint_id, condition_since);
+
+alter table public.alert_rules enable row level security;
+alter table public.alert_firings enable row level security;
+
+create policy "Alert rules are readable by everyone"
+  on public.alert_rules for select
+  using (true);
+
+create policy "Authenticated users can insert alert rules"
+  on public.alert_rules for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update alert rules"
+  on public.alert_rules for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete alert rules"
+  on public.alert_rules for delete
+  to authenticated
+  using (true);
+
+create policy "Alert firings are readable by everyone"
+  on public.alert_firings for select
+  using (true);
+
+-- The behaviour the monitor had built in until now
+insert into public.alert_rules (name, condition, duration_seconds, severity, channels) values
+  ('Port closed for 2 minutes', 'closed', 120, 'critical', array['email']),
+  ('Port flapping', 'flapping', 0, 'warning', array['email']),
+  ('Port slow for 5 minutes', 'degraded', 300, 'info', array['email']),
+  ('Status unknown for 10 minutes', 'error', 600, 'warning', array['email']);
+
+-- Carry over emails already sent for ongoing conditions so they are not repeated
+insert into public.alert_firings (rule_id, endpoint_id, condition_since, channel, fired_at)
+select r.id, s.endpoint_id, s.since, 'email', s.sent_at
+from (
+  select endpoint_id, 'closed' as condition, closed_since as since, email_sent_at as sent_at
+  from public.endpoint_states
+  union all
+  select endpoint_id, 'flapping', flapping_since, flap_email_sent_at
+  from public.endpoint_states
+  union all
+  select endpoint_id, 'degraded', degraded_since, degraded_email_sent_at
+  from public.endpoint_states
+  union all
+  select endpoint_id, 'error', error_since, error_email_sent_at
+  from public.endpoint_states
+) s
+join public.alert_rules r on r.condition = s.condition
+where s.since is not null
+  and s.sent_at is not null;
+
+alter table public.endpoint_states
+  drop column email_sent_at,
+  drop column error_email_sent_at,
+  drop column flap_email_sent_at,
+  drop column degraded_email_sent_at;
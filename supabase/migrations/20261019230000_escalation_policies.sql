@@ -0,0 +1,99 @@
+-- Escalation policies: a sequence of notifications, each a set time after an
+-- alert rule's condition began, repeated until the incident is acknowledged or
+-- the condition clears.
+
+create table public.escalation_policies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (length(trim(name)) > 0),
+  -- The whole sequence starts over this often; null sends it once
+  repeat_every_minutes integer check (repeat_every_minutes between 5 and 10080),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.escalation_steps (
+  id uuid primary key default gen_random_uuid(),
+  policy_id uuid not null references public.escalation_policies (id) on delete cascade,
+  -- Minutes after the condition began
+  delay_minutes integer not null check (delay_minutes between 0 and 10080),
+  channel text not null check (channel in ('email', 'whatsapp')),
+  recipient text not null check (length(trim(recipient)) > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index escalation_steps_policy_id_idx on public.escalation_steps (policy_id, delay_minutes);
+
+create trigger update_escalation_policies_updated_at
+  before update on public.escalation_policies
+  for each row execute function public.update_updated_at_column();
+
+create trigger update_escalation_steps_updated_at
+  before update on public.escalation_steps
+  for each row execute function public.update_updated_at_column();
+
+alter table public.escalation_policies enable row level security;
+alter table public.escalation_steps enable row level security;
+
+create policy "Escalation policies are readable by everyone"
+  on public.escalation_policies for select
+  using (true);
+
+create policy "Authenticated users can insert escalation policies"
+  on public.escalation_policies for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update escalation policies"
+  on public.escalation_policies for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete escalation policies"
+  on public.escalation_policies for delete
+  to authenticated
+  using (true);
+
+create policy "Escalation steps are readable by everyone"
+  on public.escalation_steps for select
+  using (true);
+
+create policy "Authenticated users can insert escalation steps"
+  on public.escalation_steps for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update escalation steps"
+  on public.escalation_steps for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete escalation steps"
+  on public.escalation_steps for delete
+  to authenticated
+  using (true);
+
+-- A rule notifies through its own channels, its escalation policy, or both
+alter table public.alert_rules
+  add column escalation_policy_id uuid references public.escalation_policies (id) on delete set null,
+  drop constraint alert_rules_channels_check,
+  add constraint alert_rules_channels_check
+    check (channels <@ array['email', 'whatsapp']),
+  add constraint alert_rules_has_target
+    check (cardinality(channels) > 0 or escalation_policy_id is not null);
+
+-- Escalation steps fire once per round, so firings are keyed by step and round too
+alter table public.alert_firings
+  add column step_id uuid references public.escalation_steps (id) on delete cascade,
+  add column round integer not null default 0,
+  drop constraint alert_firings_rule_id_endpoint_id_condition_since_channel_key,
+  add constraint alert_firings_delivery_key
+    unique nulls not distinct (rule_id, endpoint_id, condition_since, channel, step_id, round);
+
+-- The escalation trail of each incident
+alter table public.incident_notifications
+  add column rule_id uuid references public.alert_rules (id) on delete set null,
+  add column step_id uuid references public.escalation_steps (id) on delete set null,
+  add column round integer;
@@ -0,0 +1,12 @@
+-- WhatsApp alert recipients per brand. Numbers are stored the way the Graph
+-- API takes them: country code and number, digits only.
+
+alter table public.brands
+  add column whatsapp_numbers text[] not null default '{}'
+    check (array_to_string(whatsapp_numbers, ',') ~ '^(\d{8,15}(,\d{8,15})*)?$');
+
+-- Closures now go out on WhatsApp too, to brands that have numbers set
+update public.alert_rules
+set channels = channels || array['whatsapp']
+where name = 'Port closed for 2 minutes'
+  and not 'whatsapp' = any (channels);
@@ -0,0 +1,14 @@
+-- Recovery messages go to everyone alerted about an incident, as replies to the
+-- alert they received, so each notification keeps the id the channel gave it.
+
+alter table public.incident_notifications
+  add column message_id text;
+
+-- One recovery message per recipient and channel
+create unique index incident_notifications_one_recovery_idx
+  on public.incident_notifications (incident_id, channel, recipient) nulls not distinct
+  where kind = 'recovered';
+
+create index incidents_resolved_at_idx
+  on public.incidents (resolved_at)
+  where resolved_at is not null;
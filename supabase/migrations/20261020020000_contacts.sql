@@ -0,0 +1,94 @@
+-- A directory of the people alerts go to. A contact is linked to brands and/or
+-- endpoint tags and receives alerts for the endpoints those cover; a contact
+-- linked to neither receives every alert. Each contact picks the channels
+-- they want and must have an address for each of them.
+
+create table public.contacts (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  -- What they do, e.g. "Store IT" or "ISP account manager"
+  title text,
+  email text check (email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  -- Country code and number, digits only, as the WhatsApp API takes it
+  phone text check (phone ~ '^\d{8,15}$'),
+  channels text[] not null default array['email'],
+  tags text[] not null default '{}',
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint contacts_channels_check check (channels <@ array['email', 'whatsapp']),
+  constraint contacts_email_channel check (not 'email' = any (channels) or email is not null),
+  constraint contacts_whatsapp_channel check (not 'whatsapp' = any (channels) or phone is not null)
+);
+
+create table public.contact_brands (
+  contact_id uuid not null references public.contacts (id) on delete cascade,
+  brand_id uuid not null references public.brands (id) on delete cascade,
+  primary key (contact_id, brand_id)
+);
+
+create index contact_brands_brand_id_idx on public.contact_brands (brand_id);
+
+create trigger update_contacts_updated_at
+  before update on public.contacts
+  for each row execute function public.update_updated_at_column();
+
+alter table public.contacts enable row level security;
+alter table public.contact_brands enable row level security;
+
+create policy "Contacts are readable by everyone"
+  on public.contacts for select
+  using (true);
+
+create policy "Authenticated users can insert contacts"
+  on public.contacts for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update contacts"
+  on public.contacts for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete contacts"
+  on public.contacts for delete
+  to authenticated
+  using (true);
+
+create policy "Contact brands are readable by everyone"
+  on public.contact_brands for select
+  using (true);
+
+create policy "Authenticated users can insert contact brands"
+  on public.contact_brands for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can delete contact brands"
+  on public.contact_brands for delete
+  to authenticated
+  using (true);
+
+-- The address every email used to go to becomes a contact for all brands
+insert into public.contacts (name, title, email, channels)
+values ('Hammad Jahangir', 'IT', 'hammad.jahangir@eastgateindustries.com', array['email']);
+
+-- Brand WhatsApp numbers become contacts of that brand
+with numbers as (
+  select b.id as brand_id, b.name as brand_name, n.phone
+  from public.brands b, unnest(b.whatsapp_numbers) as n (phone)
+),
+inserted as (
+  insert into public.contacts (name, title, phone, channels)
+  select distinct on (phone) brand_name || ' WhatsApp', 'Store IT', phone, array['whatsapp']
+  from numbers
+  order by phone, brand_name
+  returning id, phone
+)
+insert into public.contact_brands (contact_id, brand_id)
+select i.id, n.brand_id
+from inserted i
+join numbers n on n.phone = i.phone;
+
+alter table public.brands drop column whatsapp_numbers;
@@ -0,0 +1,221 @@
+-- Outbound webhooks. Incident changes are queued in webhook_deliveries by
+-- triggers, whatever made them (the monitor, an acknowledgement from the
+-- dashboard), and the send-webhooks function posts them with an HMAC
+-- signature, retrying failures with backoff.
+
+create table public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (length(trim(name)) > 0),
+  url text not null check (url ~ '^https?://'),
+  -- Signs every request; receivers use it to check the X-Port-Monitor-Signature header
+  secret text not null check (length(secret) >= 16),
+  events text[] not null default array['incident.opened', 'incident.escalated', 'incident.acknowledged', 'incident.resolved'],
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint webhooks_events_check check (
+    cardinality(events) > 0
+    and events <@ array['incident.opened', 'incident.escalated', 'incident.acknowledged', 'incident.resolved']
+  )
+);
+
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  incident_id uuid references public.incidents (id) on delete set null,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_attempt_at timestamptz,
+  -- HTTP status of the last attempt, null when it got no response
+  last_status integer,
+  last_error text,
+  created_at timestamptz not null default now()
+);
+
+create index webhook_deliveries_pending_idx
+  on public.webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+
+create index webhook_deliveries_webhook_id_idx
+  on public.webhook_deliveries (webhook_id, created_at desc);
+
+create trigger update_webhooks_updated_at
+  before update on public.webhooks
+  for each row execute function public.update_updated_at_column();
+
+-- Secrets and payloads are for admins only
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Authenticated users can read webhooks"
+  on public.webhooks for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert webhooks"
+  on public.webhooks for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update webhooks"
+  on public.webhooks for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete webhooks"
+  on public.webhooks for delete
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read webhook deliveries"
+  on public.webhook_deliveries for select
+  to authenticated
+  using (true);
+
+-- Version 1 of the payload. Add fields freely; anything that renames or
+-- removes one needs a new version.
+create function public.incident_webhook_payload(target_incident_id uuid, event text, details jsonb)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'version', 1,
+    'event', event,
+    'occurred_at', now(),
+    'incident', jsonb_build_object(
+      'id', i.id,
+      'opened_at', i.opened_at,
+      'resolved_at', i.resolved_at,
+      'duration_seconds', i.duration_seconds,
+      'acknowledged_at', i.acknowledged_at,
+      'acknowledged_by', i.acknowledged_by_email
+    ),
+    'endpoint', jsonb_build_object(
+      'id', e.id,
+      'brand', b.name,
+      'role', e.role,
+      'ip', e.ip,
+      'port', e.port,
+      'tags', to_jsonb(e.tags)
+    )
+  ) || coalesce(details, '{}'::jsonb)
+  from public.incidents i
+  join public.endpoints e on e.id = i.endpoint_id
+  join public.brands b on b.id = e.brand_id
+  where i.id = target_incident_id;
+$$;
+
+-- Queue the event for every enabled webhook subscribed to it
+create function public.enqueue_incident_webhooks(target_incident_id uuid, event text, details jsonb default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.webhook_deliveries (webhook_id, incident_id, event, payload)
+  select w.id, target_incident_id, event, public.incident_webhook_payload(target_incident_id, event, details)
+  from public.webhooks w
+  where w.enabled
+    and event = any (w.events);
+$$;
+
+revoke execute on function public.enqueue_incident_webhooks(uuid, text, jsonb) from public, anon, authenticated;
+
+create function public.queue_incident_webhooks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.enqueue_incident_webhooks(new.id, 'incident.opened');
+  else
+    if old.acknowledged_at is null and new.acknowledged_at is not null then
+      perform public.enqueue_incident_webhooks(new.id, 'incident.acknowledged');
+    end if;
+    if old.resolved_at is null and new.resolved_at is not null then
+      perform public.enqueue_incident_webhooks(new.id, 'incident.resolved');
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger queue_incident_webhooks
+  after insert or update of acknowledged_at, resolved_at on public.incidents
+  for each row execute function public.queue_incident_webhooks();
+
+-- Every escalation step sent for an incident is an escalation event
+create function public.queue_escalation_webhooks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.enqueue_incident_webhooks(
+    new.incident_id,
+    'incident.escalated',
+    jsonb_build_object(
+      'escalation', jsonb_build_object(
+        'step_id', new.step_id,
+        'round', new.round,
+        'channel', new.channel,
+        'recipient', new.recipient
+      )
+    )
+  );
+  return new;
+end;
+$$;
+
+create trigger queue_escalation_webhooks
+  after insert on public.incident_notifications
+  for each row
+  when (new.step_id is not null)
+  execute function public.queue_escalation_webhooks();
+
+-- Hand out due deliveries to one sender at a time. Claimed rows are pushed
+-- back a few minutes, so a sender that dies mid-way only delays them.
+create function public.claim_webhook_deliveries(max_deliveries integer)
+returns table (
+  id uuid,
+  event text,
+  payload jsonb,
+  attempts integer,
+  url text,
+  secret text
+)
+language sql
+security definer
+set search_path = public
+as $$
+  with due as (
+    select d.id
+    from public.webhook_deliveries d
+    where d.status = 'pending'
+      and d.next_attempt_at <= now()
+    order by d.next_attempt_at
+    limit max_deliveries
+    for update skip locked
+  ),
+  claimed as (
+    update public.webhook_deliveries d
+    set next_attempt_at = now() + interval '5 minutes'
+    from due
+    where d.id = due.id
+    returning d.id, d.webhook_id, d.event, d.payload, d.attempts
+  )
+  select c.id, c.event, c.payload, c.attempts, w.url, w.secret
+  from claimed c
+  join public.webhooks w on w.id = c.webhook_id;
+$$;
+
+revoke execute on function public.claim_webhook_deliveries(integer) from public, anon, authenticated;
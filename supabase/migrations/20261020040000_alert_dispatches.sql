@@ -0,0 +1,54 @@
+-- Every alert message is sent under an idempotency key naming the incident (or
+-- condition), rule, escalation step, round and channel it belongs to. The send
+-- functions claim the key here before talking to the provider, so overlapping
+-- monitor runs or any other caller repeating a request get the first result back
+-- instead of a second message.
+
+create table public.alert_dispatches (
+  key text primary key,
+  channel text not null check (channel in ('email', 'whatsapp')),
+  status text not null default 'sending' check (status in ('sending', 'sent', 'failed')),
+  attempts integer not null default 1,
+  claimed_at timestamptz not null default now(),
+  sent_at timestamptz,
+  recipients text[] not null default '{}',
+  -- Id the channel gave the message, returned to repeated requests
+  message_id text,
+  last_error text,
+  created_at timestamptz not null default now()
+);
+
+create index alert_dispatches_created_at_idx on public.alert_dispatches (created_at);
+
+-- Recipients are only for admins; the send functions use the service role
+alter table public.alert_dispatches enable row level security;
+
+create policy "Authenticated users can read alert dispatches"
+  on public.alert_dispatches for select
+  to authenticated
+  using (true);
+
+-- Take the key for one send. Returns false when the message already went out
+-- or another sender is working on it. A failed send can be claimed again, and
+-- so can one whose sender died: a claim older than 5 minutes is abandoned.
+create function public.claim_alert_dispatch(dispatch_key text, dispatch_channel text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.alert_dispatches (key, channel)
+  values (dispatch_key, dispatch_channel)
+  on conflict (key) do update
+    set status = 'sending',
+        attempts = alert_dispatches.attempts + 1,
+        claimed_at = now(),
+        last_error = null
+    where alert_dispatches.status = 'failed'
+      or (alert_dispatches.status = 'sending' and alert_dispatches.claimed_at < now() - interval '5 minutes');
+  return found;
+end;
+$$;
+
+revoke execute on function public.claim_alert_dispatch(text, text) from public, anon, authenticated;
@@ -0,0 +1,104 @@
+-- Correlated outages. Endpoints are grouped by the network they sit on; when
+-- enough of a group is closed at once the cause is almost always the upstream
+-- link, so the monitor opens one "ISP outage" for the group instead of
+-- alerting about every endpoint. Likewise a brand whose endpoints all close
+-- together is reported as "site down". The endpoints' own incidents are kept
+-- and linked to the outage, but their alerts are held back while it lasts.
+
+create table public.network_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (length(trim(name)) > 0),
+  -- Who runs the link, e.g. the ISP, shown in outage alerts
+  provider text,
+  -- Endpoints whose IP falls in this range belong to the group
+  cidr cidr not null unique,
+  -- Share of the group's endpoints that must be closed, at least two of them
+  threshold_percent integer not null default 50 check (threshold_percent between 1 and 100),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger update_network_groups_updated_at
+  before update on public.network_groups
+  for each row execute function public.update_updated_at_column();
+
+create table public.outages (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('network', 'site')),
+  network_group_id uuid references public.network_groups (id) on delete cascade,
+  brand_id uuid references public.brands (id) on delete cascade,
+  -- The group or brand name when the outage opened, for alerts and history
+  title text not null,
+  opened_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  duration_seconds integer generated always as (extract(epoch from resolved_at - opened_at)::integer) stored,
+  -- Most endpoints closed at once during the outage, and how many there were
+  peak_down integer not null default 0,
+  endpoint_count integer not null default 0,
+  alerted_at timestamptz,
+  recovery_sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (resolved_at is null or resolved_at >= opened_at),
+  constraint outages_target_check check (
+    (kind = 'network' and network_group_id is not null and brand_id is null)
+    or (kind = 'site' and brand_id is not null and network_group_id is null)
+  )
+);
+
+-- At most one open outage per network group and per brand
+create unique index outages_open_network_group_idx
+  on public.outages (network_group_id)
+  where resolved_at is null and kind = 'network';
+
+create unique index outages_open_brand_idx
+  on public.outages (brand_id)
+  where resolved_at is null and kind = 'site';
+
+create index outages_opened_at_idx on public.outages (opened_at desc);
+
+create trigger update_outages_updated_at
+  before update on public.outages
+  for each row execute function public.update_updated_at_column();
+
+alter table public.incidents
+  add column outage_id uuid references public.outages (id) on delete set null;
+
+create index incidents_outage_id_idx on public.incidents (outage_id) where outage_id is not null;
+
+alter table public.network_groups enable row level security;
+alter table public.outages enable row level security;
+
+create policy "Network groups are readable by everyone"
+  on public.network_groups for select
+  using (true);
+
+create policy "Authenticated users can insert network groups"
+  on public.network_groups for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update network groups"
+  on public.network_groups for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete network groups"
+  on public.network_groups for delete
+  to authenticated
+  using (true);
+
+create policy "Outages are readable by everyone"
+  on public.outages for select
+  using (true);
+
+-- The two upstream links every store hangs off
+insert into public.network_groups (name, cidr)
+values
+  ('Brain Net IPs', '122.129.92.0/24'),
+  ('Live IPs', '202.59.94.0/24');
+
+-- The dashboard sounds one alarm per outage as soon as it opens
+alter publication supabase_realtime add table public.outages;
@@ -0,0 +1,78 @@
+-- Recurring maintenance windows and windows for every endpoint with a tag.
+-- While a window covers an endpoint the monitor keeps checking it but sends
+-- no alerts, the dashboard marks it as under maintenance and the uptime
+-- reports leave the time out.
+
+alter table public.maintenance_windows
+  add column tag text,
+  -- A recurring window repeats its first occurrence, starts_at to ends_at,
+  -- every day, week or month until repeat_until (for ever when null)
+  add column recurrence text not null default 'none'
+    check (recurrence in ('none', 'daily', 'weekly', 'monthly')),
+  add column repeat_until timestamptz,
+  -- Occurrences must not overlap the next one
+  add constraint maintenance_windows_recurrence_length_check check (
+    recurrence = 'none'
+    or (recurrence = 'daily' and ends_at - starts_at <= interval '1 day')
+    or (recurrence = 'weekly' and ends_at - starts_at <= interval '7 days')
+    or (recurrence = 'monthly' and ends_at - starts_at <= interval '28 days')
+  ),
+  add constraint maintenance_windows_repeat_until_check check (
+    repeat_until is null or (recurrence <> 'none' and repeat_until >= starts_at)
+  );
+
+-- Whether a window, or the occurrence of it in progress, includes the given
+-- time. Occurrences are whole days, weeks or months after the first one.
+create function public.maintenance_window_covers(m public.maintenance_windows, at timestamptz)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  with occurrence as (
+    select m.starts_at + case m.recurrence
+      when 'daily' then floor(extract(epoch from at - m.starts_at) / 86400) * interval '1 day'
+      when 'weekly' then floor(extract(epoch from at - m.starts_at) / 604800) * interval '7 days'
+      when 'monthly' then (
+        extract(year from age(at, m.starts_at)) * 12 + extract(month from age(at, m.starts_at))
+      ) * interval '1 month'
+      else interval '0'
+    end as starts_at
+  )
+  select at >= m.starts_at
+    and at < occurrence.starts_at + (m.ends_at - m.starts_at)
+    and (m.repeat_until is null or occurrence.starts_at <= m.repeat_until)
+  from occurrence;
+$$;
+
+-- Whether an endpoint is inside a maintenance window at the given time. The
+-- uptime and heatmap reports already leave out whatever this reports.
+create or replace function public.is_under_maintenance(target_endpoint_id uuid, at timestamptz)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.maintenance_windows m
+    join public.endpoints e on e.id = target_endpoint_id
+    where public.maintenance_window_covers(m, at)
+      and (m.endpoint_id is null or m.endpoint_id = e.id)
+      and (m.brand_id is null or m.brand_id = e.brand_id)
+      and (m.tag is null or m.tag = any (e.tags))
+  );
+$$;
+
+-- The endpoints under maintenance right now, for the monitor to mute and the
+-- dashboard to mark
+create function public.endpoints_in_maintenance(at timestamptz default now())
+returns setof uuid
+language sql
+stable
+set search_path = public
+as $$
+  select e.id
+  from public.endpoints e
+  where public.is_under_maintenance(e.id, at);
+$$;
@@ -0,0 +1,16 @@
+-- Contacts hold people's email addresses and phone numbers, so only signed-in
+-- users may read them. The monitor reads them with the service role.
+
+drop policy "Contacts are readable by everyone" on public.contacts;
+
+create policy "Authenticated users can read contacts"
+  on public.contacts for select
+  to authenticated
+  using (true);
+
+drop policy "Contact brands are readable by everyone" on public.contact_brands;
+
+create policy "Authenticated users can read contact brands"
+  on public.contact_brands for select
+  to authenticated
+  using (true);
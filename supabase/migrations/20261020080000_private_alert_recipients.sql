@@ -0,0 +1,16 @@
+-- Escalation steps and sent notifications name the people alerted, so only
+-- signed-in users may read them. The monitor reads them with the service role.
+
+drop policy "Escalation steps are readable by everyone" on public.escalation_steps;
+
+create policy "Authenticated users can read escalation steps"
+  on public.escalation_steps for select
+  to authenticated
+  using (true);
+
+drop policy "Incident notifications are readable by everyone" on public.incident_notifications;
+
+create policy "Authenticated users can read incident notifications"
+  on public.incident_notifications for select
+  to authenticated
+  using (true);
@@ -0,0 +1,23 @@
+-- Escalation stops when the incident is acknowledged, and only closures open
+-- incidents, so a policy on any other condition could never be stopped. Only
+-- closure rules may follow an escalation policy.
+
+-- Rules that only notified through their policy keep alerting, on the
+-- channels its steps used
+update public.alert_rules r
+set channels = coalesce(
+    (select array_agg(distinct s.channel) from public.escalation_steps s where s.policy_id = r.escalation_policy_id),
+    array['email']
+  )
+where r.condition <> 'closed'
+  and r.escalation_policy_id is not null
+  and cardinality(r.channels) = 0;
+
+update public.alert_rules
+set escalation_policy_id = null
+where condition <> 'closed'
+  and escalation_policy_id is not null;
+
+alter table public.alert_rules
+  add constraint alert_rules_escalation_condition_check
+    check (escalation_policy_id is null or condition = 'closed');
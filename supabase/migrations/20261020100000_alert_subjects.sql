@@ -0,0 +1,9 @@
+-- The subject each email alert went out with. A grouped or backup-link alert
+-- has a subject no single endpoint's alert would, so the recovery replies with
+-- the one actually sent instead of building it again.
+
+alter table public.alert_dispatches
+  add column subject text;
+
+alter table public.incident_notifications
+  add column subject text;
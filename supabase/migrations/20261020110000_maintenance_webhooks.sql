@@ -0,0 +1,70 @@
+-- Maintenance windows mute webhooks as well as alerts. An incident that opens
+-- inside a window queues no webhook events at all, so receivers never hear of
+-- a closure they would only see resolved or escalated. An incident opened
+-- before the window still gets its resolved event, so whatever it opened on
+-- the receiver's side is closed again.
+
+create function public.incident_opened_in_maintenance(target_incident_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select public.is_under_maintenance(i.endpoint_id, i.opened_at)
+  from public.incidents i
+  where i.id = target_incident_id;
+$$;
+
+create or replace function public.queue_incident_webhooks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.is_under_maintenance(new.endpoint_id, new.opened_at) then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    perform public.enqueue_incident_webhooks(new.id, 'incident.opened');
+  else
+    if old.acknowledged_at is null and new.acknowledged_at is not null then
+      perform public.enqueue_incident_webhooks(new.id, 'incident.acknowledged');
+    end if;
+    if old.resolved_at is null and new.resolved_at is not null then
+      perform public.enqueue_incident_webhooks(new.id, 'incident.resolved');
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.queue_escalation_webhooks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.incident_opened_in_maintenance(new.incident_id)
+    or public.is_under_maintenance((select endpoint_id from public.incidents where id = new.incident_id), now())
+  then
+    return new;
+  end if;
+
+  perform public.enqueue_incident_webhooks(
+    new.incident_id,
+    'incident.escalated',
+    jsonb_build_object(
+      'escalation', jsonb_build_object(
+        'step_id', new.step_id,
+        'round', new.round,
+        'channel', new.channel,
+        'recipient', new.recipient
+      )
+    )
+  );
+  return new;
+end;
+$$;
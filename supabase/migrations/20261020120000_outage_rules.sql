@@ -0,0 +1,61 @@
+-- ISP outages and sites going down are alerted through the alert rules like
+-- any other condition, instead of a fixed delay in the monitor: an "outage"
+-- rule says how long an outage must last, how severe it is, which channels it
+-- goes out on and which escalation policy follows. A rule scoped to a tag or
+-- an endpoint applies to outages that take down any endpoint in its scope.
+
+alter table public.alert_rules
+  drop constraint alert_rules_condition_check,
+  add constraint alert_rules_condition_check
+    check (condition in ('closed', 'degraded', 'flapping', 'error', 'outage')),
+  -- Outages can be acknowledged like incidents, so their rules may escalate
+  drop constraint alert_rules_escalation_condition_check,
+  add constraint alert_rules_escalation_condition_check
+    check (escalation_policy_id is null or condition in ('closed', 'outage'));
+
+-- Outage rules fire once per outage, keyed by the outage instead of an endpoint
+alter table public.alert_firings
+  add column outage_id uuid references public.outages (id) on delete cascade,
+  alter column endpoint_id drop not null,
+  add constraint alert_firings_target_check check ((endpoint_id is null) <> (outage_id is null)),
+  drop constraint alert_firings_delivery_key,
+  add constraint alert_firings_delivery_key
+    unique nulls not distinct (rule_id, endpoint_id, outage_id, condition_since, channel, step_id, round);
+
+create index alert_firings_outage_id_idx on public.alert_firings (outage_id) where outage_id is not null;
+
+-- Acknowledging an outage stops its escalation, as for an incident
+alter table public.outages
+  add column acknowledged_at timestamptz,
+  add column acknowledged_by uuid references auth.users (id) on delete set null,
+  add column acknowledged_by_email text;
+
+create function public.acknowledge_outage(outage_id uuid)
+returns public.outages
+language sql
+security definer
+set search_path = public
+as $$
+  update public.outages
+  set acknowledged_at = now(),
+      acknowledged_by = auth.uid(),
+      acknowledged_by_email = auth.jwt() ->> 'email'
+  where id = outage_id
+    and acknowledged_at is null
+  returning *;
+$$;
+
+revoke execute on function public.acknowledge_outage(uuid) from public, anon;
+grant execute on function public.acknowledge_outage(uuid) to authenticated;
+
+-- The behaviour the monitor had built in until now
+insert into public.alert_rules (name, condition, duration_seconds, severity, channels) values
+  ('ISP outage or site down for 2 minutes', 'outage', 120, 'critical', array['email', 'whatsapp']);
+
+-- Carry over outages already announced so they are not announced again
+insert into public.alert_firings (rule_id, outage_id, condition_since, channel, fired_at)
+select r.id, o.id, o.opened_at, c.channel, o.alerted_at
+from public.outages o
+cross join unnest(array['email', 'whatsapp']) as c (channel)
+join public.alert_rules r on r.condition = 'outage'
+where o.alerted_at is not null;
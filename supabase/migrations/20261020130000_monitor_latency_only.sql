@@ -0,0 +1,36 @@
+-- The latency report is built from the monitor's own checks, like the uptime
+-- report and the heatmap. Manual "Check now" probes come at odd times and
+-- would skew the buckets they land in.
+create or replace function public.endpoint_latency(
+  target_endpoint_id uuid,
+  range_start timestamptz,
+  range_end timestamptz,
+  bucket_seconds integer
+)
+returns table (
+  bucket_start timestamptz,
+  checks integer,
+  min_ms integer,
+  avg_ms integer,
+  p95_ms integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    date_bin(make_interval(secs => bucket_seconds), c.checked_at, range_start) as bucket_start,
+    count(*)::integer,
+    min(c.time_ms)::integer,
+    round(avg(c.time_ms))::integer,
+    round(percentile_cont(0.95) within group (order by c.time_ms))::integer
+  from public.port_checks c
+  where c.endpoint_id = target_endpoint_id
+    and c.source = 'monitor'
+    and c.status = 'open'
+    and c.time_ms is not null
+    and c.checked_at >= range_start
+    and c.checked_at < range_end
+  group by 1
+  order by 1;
+$$;
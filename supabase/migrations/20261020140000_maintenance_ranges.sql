@@ -0,0 +1,193 @@
+-- The uptime and heatmap reports asked is_under_maintenance about every check,
+-- which works out each window's occurrence again per row. Instead the windows
+-- are expanded once into the occurrences that overlap the report's range, one
+-- row per endpoint they cover, and the checks are joined against those.
+
+-- Every maintenance occurrence overlapping range_start to range_end, for each
+-- endpoint it covers. Occurrences follow maintenance_window_covers: whole
+-- days, weeks or months after the first one, up to repeat_until.
+create function public.maintenance_ranges(range_start timestamptz, range_end timestamptz)
+returns table (
+  endpoint_id uuid,
+  starts_at timestamptz,
+  ends_at timestamptz
+)
+language sql
+stable
+set search_path = public
+as $$
+  with windows as (
+    select
+      m.*,
+      case m.recurrence
+        when 'daily' then interval '1 day'
+        when 'weekly' then interval '7 days'
+        when 'monthly' then interval '1 month'
+        else interval '0'
+      end as period,
+      -- The longest and shortest a period can be, to skip straight to the
+      -- occurrences near the range. One spare occurrence is taken either side
+      -- for days that daylight saving makes shorter or longer.
+      case m.recurrence when 'daily' then 86400 when 'weekly' then 604800 when 'monthly' then 2678400 end
+        as longest_period_seconds,
+      case m.recurrence when 'daily' then 86400 when 'weekly' then 604800 when 'monthly' then 2419200 end
+        as shortest_period_seconds
+    from public.maintenance_windows m
+    where m.starts_at < range_end
+      and (m.ends_at > range_start or m.recurrence <> 'none')
+      and (m.repeat_until is null or m.repeat_until >= range_start - (m.ends_at - m.starts_at))
+  ),
+  occurrences as (
+    select
+      w.endpoint_id,
+      w.brand_id,
+      w.tag,
+      w.starts_at + n * w.period as starts_at,
+      w.starts_at + n * w.period + (w.ends_at - w.starts_at) as ends_at,
+      w.repeat_until
+    from windows w
+    cross join lateral generate_series(
+      greatest(0, floor(extract(epoch from range_start - w.ends_at) / w.longest_period_seconds) - 1)::integer,
+      coalesce(ceil(extract(epoch from range_end - w.starts_at) / w.shortest_period_seconds) + 1, 0)::integer
+    ) as n
+  )
+  select e.id, o.starts_at, o.ends_at
+  from occurrences o
+  join public.endpoints e
+    on (o.endpoint_id is null or o.endpoint_id = e.id)
+    and (o.brand_id is null or o.brand_id = e.brand_id)
+    and (o.tag is null or o.tag = any (e.tags))
+  where o.starts_at < range_end
+    and o.ends_at > range_start
+    and (o.repeat_until is null or o.starts_at <= o.repeat_until);
+$$;
+
+create or replace function public.endpoint_uptime(range_start timestamptz, range_end timestamptz)
+returns table (
+  endpoint_id uuid,
+  monitored_seconds integer,
+  downtime_seconds integer,
+  availability numeric,
+  outages integer,
+  longest_outage_seconds integer
+)
+language sql
+stable
+set search_path = public
+as $$
+  with maintenance as materialized (
+    select * from public.maintenance_ranges(range_start, range_end)
+  ),
+  checks as (
+    select
+      c.endpoint_id,
+      c.status,
+      c.checked_at,
+      e.fail_threshold,
+      extract(epoch from least(
+        coalesce(lead(c.checked_at) over w, range_end),
+        range_end,
+        c.checked_at + make_interval(secs => e.interval_seconds * 2)
+      ) - c.checked_at) as seconds
+    from public.port_checks c
+    join public.endpoints e on e.id = c.endpoint_id
+    where c.source = 'monitor'
+      and c.checked_at >= range_start
+      and c.checked_at < range_end
+    window w as (partition by c.endpoint_id order by c.checked_at)
+  ),
+  counted as (
+    select
+      checks.*,
+      row_number() over (partition by checks.endpoint_id order by checks.checked_at)
+        - row_number() over (partition by checks.endpoint_id, checks.status order by checks.checked_at) as run
+    from checks
+    where checks.status <> 'error'
+      and not exists (
+        select 1
+        from maintenance m
+        where m.endpoint_id = checks.endpoint_id
+          and checks.checked_at >= m.starts_at
+          and checks.checked_at < m.ends_at
+      )
+  ),
+  outage_runs as (
+    select counted.endpoint_id, sum(counted.seconds) as seconds
+    from counted
+    where counted.status = 'closed'
+    group by counted.endpoint_id, counted.run
+    having count(*) >= max(counted.fail_threshold)
+  ),
+  totals as (
+    select counted.endpoint_id, sum(counted.seconds) as seconds
+    from counted
+    group by counted.endpoint_id
+  ),
+  outage_totals as (
+    select
+      outage_runs.endpoint_id,
+      sum(outage_runs.seconds) as seconds,
+      count(*) as outages,
+      max(outage_runs.seconds) as longest
+    from outage_runs
+    group by outage_runs.endpoint_id
+  )
+  select
+    e.id,
+    coalesce(t.seconds, 0)::integer,
+    coalesce(o.seconds, 0)::integer,
+    case when t.seconds > 0 then round(100 * (1 - coalesce(o.seconds, 0) / t.seconds), 3) end,
+    coalesce(o.outages, 0)::integer,
+    coalesce(o.longest, 0)::integer
+  from public.endpoints e
+  left join totals t on t.endpoint_id = e.id
+  left join outage_totals o on o.endpoint_id = e.id;
+$$;
+
+create or replace function public.availability_grid(range_start timestamptz, range_end timestamptz, bucket_seconds integer)
+returns table (
+  endpoint_id uuid,
+  availability numeric[]
+)
+language sql
+stable
+set search_path = public
+as $$
+  with maintenance as materialized (
+    select * from public.maintenance_ranges(range_start, range_end)
+  ),
+  buckets as (
+    select generate_series(
+      range_start,
+      range_end - make_interval(secs => bucket_seconds),
+      make_interval(secs => bucket_seconds)
+    ) as bucket_start
+  ),
+  stats as (
+    select
+      c.endpoint_id,
+      date_bin(make_interval(secs => bucket_seconds), c.checked_at, range_start) as bucket_start,
+      count(*) filter (where c.status = 'open') as up,
+      count(*) as total
+    from public.port_checks c
+    where c.source = 'monitor'
+      and c.status <> 'error'
+      and c.checked_at >= range_start
+      and c.checked_at < range_end
+      and not exists (
+        select 1
+        from maintenance m
+        where m.endpoint_id = c.endpoint_id
+          and c.checked_at >= m.starts_at
+          and c.checked_at < m.ends_at
+      )
+    group by 1, 2
+  )
+  select
+    e.id,
+    array_agg(round(100.0 * s.up / s.total, 1) order by b.bucket_start)
+  from public.endpoints e
+  cross join buckets b
+  left join stats s on s.endpoint_id = e.id and s.bucket_start = b.bucket_start
+  group by e.id;
+$$;
@@ -0,0 +1,83 @@
+-- Who acknowledged an incident is an operator's email address, so it moves
+-- out of incidents, which everyone can read, into a table only signed-in users
+-- may read. Incidents keep the acknowledging user's id.
+
+create table public.incident_acknowledgers (
+  incident_id uuid primary key references public.incidents (id) on delete cascade,
+  email text not null
+);
+
+alter table public.incident_acknowledgers enable row level security;
+
+create policy "Authenticated users can read incident acknowledgers"
+  on public.incident_acknowledgers for select
+  to authenticated
+  using (true);
+
+insert into public.incident_acknowledgers (incident_id, email)
+select id, acknowledged_by_email
+from public.incidents
+where acknowledged_by_email is not null;
+
+alter table public.incidents drop column acknowledged_by_email;
+
+-- Both writes are one statement, so the incident.acknowledged webhook, queued
+-- once the statement ends, already finds the email
+create or replace function public.acknowledge_incident(incident_id uuid)
+returns public.incidents
+language sql
+security definer
+set search_path = public
+as $$
+  with acknowledged as (
+    update public.incidents
+    set acknowledged_at = now(),
+        acknowledged_by = auth.uid()
+    where id = incident_id
+      and acknowledged_at is null
+    returning *
+  ),
+  recorded as (
+    insert into public.incident_acknowledgers (incident_id, email)
+    select a.id, auth.jwt() ->> 'email'
+    from acknowledged a
+    where auth.jwt() ->> 'email' is not null
+  )
+  select * from acknowledged;
+$$;
+
+-- Webhook receivers are set up by signed-in users, so the payload still names
+-- who acknowledged
+create or replace function public.incident_webhook_payload(target_incident_id uuid, event text, details jsonb)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'version', 1,
+    'event', event,
+    'occurred_at', now(),
+    'incident', jsonb_build_object(
+      'id', i.id,
+      'opened_at', i.opened_at,
+      'resolved_at', i.resolved_at,
+      'duration_seconds', i.duration_seconds,
+      'acknowledged_at', i.acknowledged_at,
+      'acknowledged_by', a.email
+    ),
+    'endpoint', jsonb_build_object(
+      'id', e.id,
+      'brand', b.name,
+      'role', e.role,
+      'ip', e.ip,
+      'port', e.port,
+      'tags', to_jsonb(e.tags)
+    )
+  ) || coalesce(details, '{}'::jsonb)
+  from public.incidents i
+  join public.endpoints e on e.id = i.endpoint_id
+  join public.brands b on b.id = e.brand_id
+  left join public.incident_acknowledgers a on a.incident_id = i.id
+  where i.id = target_incident_id;
+$$;
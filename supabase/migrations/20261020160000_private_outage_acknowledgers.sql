@@ -0,0 +1,45 @@
+-- Who acknowledged an outage is an operator's email address, so it moves out
+-- of outages, which everyone can read, into a table only signed-in users may
+-- read, as for incidents. Outages keep the acknowledging user's id.
+
+create table public.outage_acknowledgers (
+  outage_id uuid primary key references public.outages (id) on delete cascade,
+  email text not null
+);
+
+alter table public.outage_acknowledgers enable row level security;
+
+create policy "Authenticated users can read outage acknowledgers"
+  on public.outage_acknowledgers for select
+  to authenticated
+  using (true);
+
+insert into public.outage_acknowledgers (outage_id, email)
+select id, acknowledged_by_email
+from public.outages
+where acknowledged_by_email is not null;
+
+alter table public.outages drop column acknowledged_by_email;
+
+create or replace function public.acknowledge_outage(outage_id uuid)
+returns public.outages
+language sql
+security definer
+set search_path = public
+as $$
+  with acknowledged as (
+    update public.outages
+    set acknowledged_at = now(),
+        acknowledged_by = auth.uid()
+    where id = outage_id
+      and acknowledged_at is null
+    returning *
+  ),
+  recorded as (
+    insert into public.outage_acknowledgers (outage_id, email)
+    select a.id, auth.jwt() ->> 'email'
+    from acknowledged a
+    where auth.jwt() ->> 'email' is not null
+  )
+  select * from acknowledged;
+$$;